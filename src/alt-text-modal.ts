@@ -0,0 +1,55 @@
+import { App, Modal } from 'obsidian';
+
+/**
+ * Ask for the alt text of an image being uploaded, prefilled with the default one.
+ */
+export class AltTextModal extends Modal {
+  private readonly label: string;
+  private readonly defaultAlt: string;
+  private resolve?: (alt: string | undefined) => void;
+
+  constructor(app: App, label: string, defaultAlt: string) {
+    super(app);
+    this.label = label;
+    this.defaultAlt = defaultAlt;
+  }
+
+  /** Open the modal and resolve with the entered alt text, or undefined when dismissed. */
+  prompt(): Promise<string | undefined> {
+    return new Promise((resolve) => {
+      this.resolve = resolve;
+      this.open();
+    });
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.createEl('h3', { text: 'Alt text' });
+    contentEl.createEl('p', { text: `Describe ${this.label} for readers who cannot see it.`, cls: 'setting-item-description' });
+
+    const input = contentEl.createEl('input', { type: 'text', value: this.defaultAlt });
+    input.style.width = '100%';
+    input.addEventListener('keydown', (evt: KeyboardEvent) => {
+      if (evt.key === 'Enter') this.finish(input.value.trim());
+    });
+
+    const row = contentEl.createDiv({ cls: 'setting-item' });
+    const okBtn = row.createEl('button', { text: 'Insert', cls: 'mod-cta' });
+    okBtn.addEventListener('click', () => this.finish(input.value.trim()));
+    input.focus();
+    input.select();
+  }
+
+  onClose() {
+    this.contentEl.empty();
+    // Closing with Escape or the X button keeps the default alt text
+    this.resolve?.(undefined);
+    this.resolve = undefined;
+  }
+
+  private finish(alt: string) {
+    this.resolve?.(alt);
+    this.resolve = undefined;
+    this.close();
+  }
+}
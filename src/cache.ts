@@ -1,4 +1,6 @@
 import { App, TFile, Notice } from 'obsidian';
+import { parseCloudinaryUrl } from './cloudinary-url';
+import type { UploadedAsset } from './provider';
 
 export interface CacheEntry {
   url: string;
@@ -6,12 +8,25 @@ export interface CacheEntry {
   filename: string | null;
   uploaded_at: string | null;
   uploader: string;
+  resource_type: string | null; // Cloudinary resource type: image, video or raw; null for other providers
+  width: number | null;
+  height: number | null;
+  bytes: number | null;
+  format: string | null;
+  version: number | null;
 }
 
+// Fields added after the first cache format: entries missing one of them are migrated
+const ASSET_FIELDS = ['resource_type', 'width', 'height', 'bytes', 'format', 'version'];
+
 export interface SharedCache {
   [hash: string]: CacheEntry | string;
 }
 
+// Pending read-modify-write updates per vault and cache file. Callers create a CloudinaryCache per upload, so the queue
+// is shared by every instance: concurrent auto-uploads, pastes and batches don't drop each other's entries.
+const updateQueues = new WeakMap<object, Map<string, Promise<unknown>>>();
+
 export class CloudinaryCache {
   private app: App;
   private cachePath: string;
@@ -45,25 +60,33 @@ export class CloudinaryCache {
 
     for (const [hash, entry] of Object.entries(data)) {
       if (typeof entry === 'string') {
-        migrated[hash] = {
+        migrated[hash] = withAssetFields({
           url: entry,
           public_id: null,
           filename: null,
           uploaded_at: now,
           uploader: 'migrated',
-        };
+        });
         needsWrite = true;
       } else {
         // Ensure all required fields are present
         const e = entry as any;
-        if (e.url && (e.public_id === undefined || e.filename === undefined || e.uploaded_at === undefined || e.uploader === undefined)) {
-          migrated[hash] = {
-            url: e.url,
+        const incomplete =
+          e.public_id === undefined ||
+          e.filename === undefined ||
+          e.uploaded_at === undefined ||
+          e.uploader === undefined ||
+          ASSET_FIELDS.some((field) => e[field] === undefined);
+        // Entries written before uploads returned their public_id can recover it from the Cloudinary URL
+        const missingPublicId = !e.public_id && !!parseCloudinaryUrl(e.url);
+        if (e.url && (incomplete || missingPublicId)) {
+          migrated[hash] = withAssetFields({
+            ...e,
             public_id: e.public_id ?? null,
             filename: e.filename ?? null,
             uploaded_at: e.uploaded_at ?? now,
             uploader: e.uploader ?? 'unknown',
-          };
+          });
           needsWrite = true;
         } else {
           migrated[hash] = entry as CacheEntry;
@@ -100,14 +123,56 @@ export class CloudinaryCache {
   }
 
   async getEntry(hash: string): Promise<CacheEntry | null> {
+    await this.pendingUpdates();
     const cache = await this.readCache();
     return cache[hash] || null;
   }
 
   async addEntry(hash: string, entry: CacheEntry): Promise<void> {
+    await this.update((cache) => {
+      cache[hash] = entry;
+    });
+  }
+
+  /**
+   * Entries pointing at `url` (the same asset can be cached under several hashes, e.g. after re-encoding).
+   */
+  async findEntriesByUrl(url: string): Promise<Array<[string, CacheEntry]>> {
+    await this.pendingUpdates();
+    const cache = await this.readCache();
+    return Object.entries(cache).filter(([, entry]) => entry.url === url);
+  }
+
+  /**
+   * Entries of the asset stored under `publicId`, used to avoid giving a templated public_id to a second image.
+   */
+  async findEntriesByPublicId(publicId: string): Promise<Array<[string, CacheEntry]>> {
+    await this.pendingUpdates();
     const cache = await this.readCache();
-    cache[hash] = entry;
-    await this.writeCache(cache);
+    return Object.entries(cache).filter(([, entry]) => entry.public_id === publicId);
+  }
+
+  async removeEntries(hashes: string[]): Promise<void> {
+    if (!hashes.length) return;
+    await this.update((cache) => {
+      for (const hash of hashes) delete cache[hash];
+    });
+  }
+
+  private update(change: (cache: Record<string, CacheEntry>) => void): Promise<void> {
+    const queues = updateQueues.get(this.app) ?? new Map<string, Promise<unknown>>();
+    updateQueues.set(this.app, queues);
+    const run = (queues.get(this.cachePath) ?? Promise.resolve()).then(async () => {
+      const cache = await this.readCache();
+      change(cache);
+      await this.writeCache(cache);
+    });
+    queues.set(this.cachePath, run.catch(() => {}));
+    return run;
+  }
+
+  private pendingUpdates(): Promise<unknown> | undefined {
+    return updateQueues.get(this.app)?.get(this.cachePath);
   }
 
   static async calculateHash(data: ArrayBuffer): Promise<string> {
@@ -127,6 +192,59 @@ export class CloudinaryCache {
   }
 }
 
+/**
+ * Cache entry for a fresh upload. The resource type comes from the provider, then from the Cloudinary URL, then from
+ * `defaultResourceType`; S3, WebDAV and custom endpoint uploads have none and keep null.
+ */
+export function buildCacheEntry(asset: UploadedAsset, filename: string | null, defaultResourceType: string | null = null): CacheEntry {
+  return {
+    url: asset.url,
+    public_id: asset.public_id ?? null,
+    filename,
+    uploader: 'obsidian-plugin',
+    uploaded_at: new Date().toISOString(),
+    resource_type: asset.resource_type ?? parseCloudinaryUrl(asset.url)?.resource_type ?? defaultResourceType,
+    width: asset.width ?? null,
+    height: asset.height ?? null,
+    bytes: asset.bytes ?? null,
+    format: asset.format ?? null,
+    version: asset.version ?? null,
+  };
+}
+
+/**
+ * Asset recorded by a cache entry, so cache hits keep the size and resource type of the original upload.
+ */
+export function assetFromCacheEntry(entry: CacheEntry): UploadedAsset {
+  return {
+    url: entry.url,
+    public_id: entry.public_id ?? null,
+    resource_type: entry.resource_type ?? undefined,
+    width: entry.width ?? undefined,
+    height: entry.height ?? undefined,
+    bytes: entry.bytes ?? undefined,
+    format: entry.format ?? undefined,
+    version: entry.version ?? undefined,
+  };
+}
+
+/**
+ * Fill the asset fields of an older entry, taking what the Cloudinary URL tells (public_id, type, format, version).
+ */
+function withAssetFields(entry: any): CacheEntry {
+  const parts = parseCloudinaryUrl(entry.url);
+  return {
+    ...entry,
+    public_id: entry.public_id || parts?.public_id || null,
+    resource_type: entry.resource_type ?? parts?.resource_type ?? null,
+    width: entry.width ?? null,
+    height: entry.height ?? null,
+    bytes: entry.bytes ?? null,
+    format: entry.format ?? parts?.format ?? null,
+    version: entry.version ?? parts?.version ?? null,
+  };
+}
+
 function getWebCrypto(): Crypto | undefined {
   const gc = (globalThis as any).crypto;
   if (gc?.subtle) return gc as Crypto;
@@ -0,0 +1,116 @@
+/**
+ * Parts of a Cloudinary delivery URL:
+ * `https://res.cloudinary.com/<cloud_name>/<resource_type>/<type>/[<transformation>/][v<version>/]<public_id>[.<format>]`
+ */
+export interface CloudinaryUrlParts {
+  cloud_name: string;
+  resource_type: string;
+  type: string; // delivery type: upload, private, authenticated...
+  transformation: string | null; // e.g. `c_fill,w_300/e_sharpen`
+  version: number | null;
+  public_id: string;
+  format: string | null;
+}
+
+// Parameter keys that can start a transformation component (`w_300`, `c_fill`, `t_named`...)
+const TRANSFORMATION_KEYS = new Set('a ac af ar b bo c co cs d dl dn dpr du e eo f fl fn fps g h if ki l o p pg q r so sp t u vc vs w x y z'.split(' '));
+
+/**
+ * Parse a Cloudinary delivery URL, or return undefined for any other URL.
+ */
+export function parseCloudinaryUrl(url: string): CloudinaryUrlParts | undefined {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch (e) {
+    return undefined;
+  }
+  if (parsed.hostname !== 'res.cloudinary.com') return undefined;
+
+  let segments: string[];
+  try {
+    segments = parsed.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+  } catch (e) {
+    // Malformed escape sequence (`%E0%A4%A`)
+    return undefined;
+  }
+  const [cloudName, resourceType, type, ...rest] = segments;
+  if (!cloudName || !resourceType || !type || !rest.length) return undefined;
+
+  // Transformation components come first, then the optional version, then the public id (which may contain folders)
+  let index = 0;
+  while (index < rest.length - 1 && isTransformationSegment(rest[index])) index++;
+  const transformation = index ? rest.slice(0, index).join('/') : null;
+
+  let version: number | null = null;
+  const versionMatch = /^v(\d+)$/.exec(rest[index]);
+  if (versionMatch && index < rest.length - 1) {
+    version = Number(versionMatch[1]);
+    index++;
+  }
+
+  const path = rest.slice(index).join('/');
+  // Raw files keep their extension in the public id
+  const extMatch = resourceType === 'raw' ? null : /^(.+)\.([A-Za-z0-9]+)$/.exec(path);
+  return {
+    cloud_name: cloudName,
+    resource_type: resourceType,
+    type,
+    transformation,
+    version,
+    public_id: extMatch ? extMatch[1] : path,
+    format: extMatch ? extMatch[2].toLowerCase() : null,
+  };
+}
+
+/**
+ * Build a delivery URL from its parts (the inverse of `parseCloudinaryUrl`).
+ */
+export function buildCloudinaryUrl(parts: CloudinaryUrlParts): string {
+  const segments = [parts.cloud_name, parts.resource_type, parts.type];
+  if (parts.transformation) segments.push(parts.transformation);
+  if (parts.version !== null) segments.push(`v${parts.version}`);
+  const publicId = parts.public_id.split('/').map(encodeURIComponent).join('/');
+  segments.push(parts.format ? `${publicId}.${parts.format}` : publicId);
+  return `https://res.cloudinary.com/${segments.join('/')}`;
+}
+
+function isTransformationSegment(segment: string): boolean {
+  return segment.split(',').every((component) => {
+    const match = /^(\$?[a-z]+)_/.exec(component);
+    return !!match && (match[1].startsWith('$') || TRANSFORMATION_KEYS.has(match[1]));
+  });
+}
+
+export interface LinkAtPosition {
+  url: string;
+  alt: string;
+  from: number; // offsets of the whole embed in the line, so it can be replaced
+  to: number;
+}
+
+const LINK_PATTERNS: Array<{ pattern: RegExp; read: (match: RegExpMatchArray) => { url: string; alt: string } }> = [
+  // ![alt](url) and [alt](url), optionally with <url> and a title
+  { pattern: /!?\[([^\]]*)\]\(<?(https?:\/\/[^)\s>]+)>?(?:\s+"[^"]*")?\)/g, read: (m) => ({ url: m[2], alt: m[1] }) },
+  // <img src="url">, <video src="url" controls></video>, <audio ...></audio>
+  {
+    pattern: /<(?:img|video|audio)\b[^>]*?\bsrc="(https?:\/\/[^"]+)"[^>]*>(?:\s*<\/(?:video|audio)>)?/g,
+    read: (m) => ({ url: m[1], alt: /\balt="([^"]*)"/.exec(m[0])?.[1] ?? '' }),
+  },
+  // bare URL
+  { pattern: /https?:\/\/[^\s)>"']+/g, read: (m) => ({ url: m[0], alt: '' }) },
+];
+
+/**
+ * Find the link (markdown embed, HTML media tag or bare URL) containing the cursor position `ch` of `line`.
+ */
+export function findLinkAt(line: string, ch: number): LinkAtPosition | undefined {
+  for (const { pattern, read } of LINK_PATTERNS) {
+    for (const match of line.matchAll(pattern)) {
+      const from = match.index ?? 0;
+      const to = from + match[0].length;
+      if (ch >= from && ch <= to) return { ...read(match), from, to };
+    }
+  }
+  return undefined;
+}
@@ -1,7 +1,17 @@
+import { HttpResponse, isUploadCancelled, sendRequest, UploadCancelledError } from './http';
+import { CloudinaryResourceType, DEFAULT_MEDIA_EXTENSIONS, getResourceType, MEDIA_EXTENSION_SETTINGS, MEDIA_KINDS, parseExtensionList } from './media';
+import type { UploadedAsset, UploadOptions, UploadProvider } from './provider';
+
 interface CloudinaryResponse {
   secure_url: string;
   public_id: string;
   version: number;
+  resource_type?: string;
+  width?: number;
+  height?: number;
+  bytes?: number;
+  format?: string;
+  existing?: boolean; // set when overwrite is off and the public_id was already taken
 }
 
 interface CloudinarySettings {
@@ -9,118 +19,368 @@ interface CloudinarySettings {
   api_key?: string;
   upload_preset?: string;
   api_secret?: string; // NOTE: api_secret should NOT be used in a frontend plugin
+  signature_endpoint?: string; // URL of a trusted server signing requests, so the secret never lives in the plugin
+  upload_options?: CloudinaryUploadOptions; // defaults applied to every upload, overridden per call
+  chunked?: ChunkedUploadSettings;
+  auto_resource_type?: boolean; // upload to `/auto/upload` and let Cloudinary detect the resource type
+  api_base_url?: string; // API root, `https://api.cloudinary.com/v1_1` unless pointed at a local stand-in
+}
+
+interface ChunkedUploadSettings {
+  threshold?: number; // bytes above which the chunked protocol is used
+  chunk_size?: number; // bytes per part; Cloudinary requires at least 5 MB except for the last one
+  max_retries?: number; // attempts per chunk after a transient failure
+  retry_delay_ms?: number; // first retry delay, doubled on each attempt
+}
+
+const API_BASE_URL = 'https://api.cloudinary.com/v1_1';
+
+const CHUNKED_DEFAULTS: Required<ChunkedUploadSettings> = {
+  threshold: 20 * 1024 * 1024,
+  chunk_size: 6 * 1024 * 1024,
+  max_retries: 3,
+  retry_delay_ms: 1000,
+};
+
+/**
+ * Optional upload API parameters. They are sent with the file and, for signed uploads,
+ * included in the signature.
+ */
+export interface CloudinaryUploadOptions extends UploadOptions {
+  folder?: string;
+  public_id?: string;
+  tags?: string[] | string;
+  context?: Record<string, string> | string;
+  overwrite?: boolean;
+  transformation?: string; // incoming transformation, e.g. `c_limit,w_2000`
+  resource_type?: CloudinaryResourceType; // overrides the type derived from `kind`
+}
+
+/**
+ * Filters of an Admin API resource listing. `folder` and `prefix` both match the start of the public_id
+ * (`folder/prefix`); a tag listing cannot be combined with a prefix server side, so the prefix is then applied to the page.
+ */
+export interface ResourceListQuery {
+  resource_type?: 'image' | 'video' | 'raw';
+  folder?: string;
+  prefix?: string;
+  tag?: string;
+  max_results?: number;
+  next_cursor?: string; // cursor of the previous page
+}
+
+export interface CloudinaryResource {
+  public_id: string;
+  resource_type: string;
+  type: string;
+  format?: string;
+  version?: number;
+  secure_url: string;
+  width?: number;
+  height?: number;
+  bytes?: number;
+  created_at?: string;
+}
+
+export interface ResourceListPage {
+  resources: CloudinaryResource[];
+  next_cursor?: string; // set when more resources are available
+}
+
+/**
+ * Upload preset managed through the upload_presets Admin API.
+ * List fields accept arrays or comma separated strings; `max_file_size` is in bytes.
+ */
+export interface UploadPresetConfig {
+  name: string;
+  unsigned?: boolean;
+  folder?: string;
+  tags?: string[] | string;
+  allowed_formats?: string[] | string;
+  max_file_size?: number;
+  transformation?: string; // incoming transformation applied before the file is stored, e.g. `c_limit,w_2000`
 }
 
-export class CloudinaryUploader {
+// Parameters Cloudinary accepts on unsigned uploads (the preset decides the rest)
+const UNSIGNED_ALLOWED_PARAMS = new Set(['folder', 'public_id', 'tags', 'context']);
+
+interface SignedFields {
+  timestamp: string;
+  api_key: string;
+  signature: string;
+}
+
+export class CloudinaryUploader implements UploadProvider {
   private settings: CloudinarySettings;
 
   constructor(settings: CloudinarySettings) {
     this.settings = settings;
   }
 
+  describe(): string {
+    return `Cloudinary (${this.settings.cloud_name})`;
+  }
+
   /**
    * Upload a File or Blob to Cloudinary.
    * - If `upload_preset` is provided, an unsigned upload will be attempted.
    * - If `api_secret` is present and `api_key` is provided, a signed upload will be attempted
    *   using the locally stored `api_secret` (DANGEROUS: storing the secret in the plugin has security implications).
+   * - Otherwise, if `signature_endpoint` is set, the parameters are signed by that server and a signed upload is performed.
+   * `options` (folder, public_id, tags...) are merged over `upload_options` and signed with the other parameters.
+   * `options.kind` picks the endpoint: `/image`, `/video` (also used for audio), `/raw` for documents, or `/auto`.
    */
-  async upload(fileOrBlob: File | Blob, filename?: string): Promise<string> {
+  async upload(fileOrBlob: File | Blob, filename?: string, options: CloudinaryUploadOptions = {}): Promise<UploadedAsset> {
+    const name = (fileOrBlob instanceof File ? fileOrBlob.name : filename) || `upload-${Date.now()}.png`;
+    const params = await this.buildUploadParams(options);
+    const resourceType = options.resource_type ?? getResourceType(options.kind ?? 'image', this.settings.auto_resource_type);
+    const url = this.apiUrl(`${resourceType}/upload`);
+    const chunked = { ...CHUNKED_DEFAULTS, ...this.settings.chunked };
+
+    if (fileOrBlob.size > chunked.threshold) {
+      return toAsset(await this.uploadInChunks(url, fileOrBlob, name, params, chunked, options));
+    }
+
+    const response = await sendRequest({
+      method: 'POST',
+      url,
+      body: buildUploadForm(fileOrBlob, name, params),
+      onProgress: options.onProgress,
+      signal: options.signal,
+    });
+
+    if (!response.ok) {
+      throw await readUploadError(response);
+    }
+
+    const data: CloudinaryResponse = await response.json();
+    return toAsset(data);
+  }
+
+  /**
+   * Have Cloudinary fetch a remote file (`file=<url>`) instead of sending its bytes, e.g. to re-host an image
+   * found on a web page. Same parameters and signing as `upload`.
+   */
+  async uploadFromUrl(remoteUrl: string, options: CloudinaryUploadOptions = {}): Promise<UploadedAsset> {
+    const params = await this.buildUploadParams(options);
+    const resourceType = options.resource_type ?? getResourceType(options.kind ?? 'image', this.settings.auto_resource_type);
     const formData = new FormData();
+    formData.append('file', remoteUrl);
+    for (const [key, value] of Object.entries(params)) formData.append(key, value);
 
-    // Append file with filename when possible
-    if (fileOrBlob instanceof File) {
-      formData.append('file', fileOrBlob);
-    } else {
-      const name = filename || `upload-${Date.now()}.png`;
-      formData.append('file', fileOrBlob, name);
+    const response = await sendRequest({ method: 'POST', url: this.apiUrl(`${resourceType}/upload`), body: formData, signal: options.signal });
+    if (!response.ok) {
+      throw await readUploadError(response);
     }
+    return toAsset(await response.json());
+  }
 
+  /**
+   * Upload parameters: `options` merged over `upload_options`, then the preset and the signature.
+   */
+  private async buildUploadParams(options: CloudinaryUploadOptions): Promise<Record<string, string>> {
+    const params = serializeUploadParams({ ...this.settings.upload_options, ...options });
     if (this.settings.upload_preset) {
-      formData.append('upload_preset', this.settings.upload_preset);
+      params.upload_preset = this.settings.upload_preset;
     }
 
-    // If api_secret is present and api_key is provided, perform a client-side signed upload
-    if (this.settings.api_secret) {
-      if (!this.settings.api_key) {
-        throw new Error('Signed uploads require api_key and api_secret');
+    if (this.canSign()) {
+      // Signed upload: locally with api_secret (dangerous) or through the remote signing endpoint
+      Object.assign(params, await this.signParams(params, options.signal));
+    } else {
+      // Unsigned uploads reject parameters such as overwrite or transformation: leave them to the preset
+      for (const key of Object.keys(params)) {
+        if (key !== 'upload_preset' && !UNSIGNED_ALLOWED_PARAMS.has(key)) delete params[key];
       }
-      const timestamp = Math.floor(Date.now() / 1000);
-      const signature = await sha1Hex(`timestamp=${timestamp}${this.settings.api_secret}`);
-      formData.append('timestamp', String(timestamp));
-      formData.append('api_key', this.settings.api_key);
-      formData.append('signature', signature);
-    } else if (this.settings.api_key) {
       // If not signing, include api_key when provided (optional)
-      formData.append('api_key', this.settings.api_key);
+      if (this.settings.api_key) params.api_key = this.settings.api_key;
     }
+    return params;
+  }
 
-    const url = `https://api.cloudinary.com/v1_1/${this.settings.cloud_name}/image/upload`;
+  /**
+   * Chunked upload protocol: every part is POSTed with the same parameters, a shared `X-Unique-Upload-Id`
+   * and its `Content-Range`; Cloudinary answers the last part with the full upload response.
+   * A part failing with a network error, 429 or 5xx is retried with backoff, so only the remaining parts
+   * are sent again instead of the whole file.
+   */
+  private async uploadInChunks(
+    url: string,
+    blob: Blob,
+    name: string,
+    params: Record<string, string>,
+    chunked: Required<ChunkedUploadSettings>,
+    options: CloudinaryUploadOptions
+  ): Promise<CloudinaryResponse> {
+    const total = blob.size;
+    const uploadId = `obsidian-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+    let data: CloudinaryResponse | undefined;
 
-    const response = await fetch(url, {
-      method: 'POST',
-      body: formData,
-    });
+    for (let start = 0; start < total; start += chunked.chunk_size) {
+      const end = Math.min(start + chunked.chunk_size, total);
+      const chunk = blob.slice(start, end, blob.type);
 
-    if (!response.ok) {
-      // Try to parse JSON error message if available
-      let bodyText = await response.text();
-      try {
-        const json = JSON.parse(bodyText);
-        const message = json.error?.message || bodyText;
-        throw new Error(`Upload failed: ${response.status} ${message}`);
-      } catch (e) {
-        throw new Error(`Upload failed: ${response.status} ${bodyText}`);
+      for (let attempt = 0; ; attempt++) {
+        let response: HttpResponse | undefined;
+        let failure: unknown;
+        try {
+          response = await sendRequest({
+            method: 'POST',
+            url,
+            headers: { 'X-Unique-Upload-Id': uploadId, 'Content-Range': `bytes ${start}-${end - 1}/${total}` },
+            body: buildUploadForm(chunk, name, params),
+            onProgress: options.onProgress ? (loaded: number) => options.onProgress?.(start + loaded, total) : undefined,
+            signal: options.signal,
+          });
+        } catch (e) {
+          if (isUploadCancelled(e)) throw e;
+          failure = e;
+        }
+
+        if (response?.ok) {
+          data = await response.json();
+          options.onProgress?.(end, total);
+          break;
+        }
+        if (response && !isTransientStatus(response.status)) throw await readUploadError(response);
+        if (attempt >= chunked.max_retries) throw response ? await readUploadError(response) : failure;
+
+        await waitFor(chunked.retry_delay_ms * 2 ** attempt, options.signal);
       }
     }
 
-    const data: CloudinaryResponse = await response.json();
-    return data.secure_url;
+    if (!data?.secure_url) throw new Error('Invalid response from chunked upload: missing secure_url');
+    return data;
   }
 
   /**
-   * Create an unsigned upload preset for the current Cloudinary account.
-   * Requires api_key and api_secret (and allow storing the secret enabled by the user).
+   * Delete an uploaded asset through the destroy API, also invalidating its cached CDN copies.
+   * Cloudinary only accepts signed destroy calls, so this requires api_secret or a signing endpoint.
+   * `resourceType` must match the upload: `image` (default), `video` (also audio) or `raw`.
    */
-  async createUploadPreset(presetName: string): Promise<any> {
+  async delete(publicId: string, resourceType = 'image'): Promise<void> {
+    if (!this.canSign()) {
+      throw new Error('Deleting assets requires api_key and api_secret or a signing endpoint');
+    }
+
+    const params: Record<string, string> = { public_id: publicId, invalidate: 'true' };
+    Object.assign(params, await this.signParams(params));
+    const formData = new FormData();
+    for (const [key, value] of Object.entries(params)) {
+      formData.append(key, value);
+    }
+
+    const url = this.apiUrl(`${resourceType}/destroy`);
+    const response = await sendRequest({ method: 'POST', url, body: formData });
+    const text = await response.text();
+    if (!response.ok) {
+      throw new Error(`Delete failed: ${response.status} ${text}`);
+    }
+
+    // Cloudinary answers 200 with { result: 'not found' } for unknown ids
+    let result: string | undefined;
+    try {
+      result = JSON.parse(text).result;
+    } catch (e) {
+      throw new Error('Invalid response from destroy');
+    }
+    if (result !== 'ok') throw new Error(`Delete failed: ${result}`);
+  }
+
+  /**
+   * List uploaded resources through the Admin API, one page at a time: pass the returned `next_cursor`
+   * back to get the next page. Admin calls use basic auth, so this requires api_key and api_secret
+   * (a signing endpoint cannot sign them).
+   */
+  async listResources(query: ResourceListQuery = {}): Promise<ResourceListPage> {
     if (!this.settings.api_key || !this.settings.api_secret) {
-      throw new Error('API key and secret required to create upload preset');
+      throw new Error('API key and secret required to browse the media library');
     }
 
-    const url = `https://api.cloudinary.com/v1_1/${this.settings.cloud_name}/upload_presets`;
-    const body = {
-      name: presetName,
-      unsigned: true,
-    } as any;
+    const resourceType = query.resource_type ?? 'image';
+    const folder = String(query.folder ?? '').replace(/^\/+|\/+$/g, '');
+    const prefix = folder ? `${folder}/${query.prefix ?? ''}` : (query.prefix ?? '');
 
-    // Basic auth header
-    let authHeader: string;
-    if (typeof btoa !== 'undefined') {
-      authHeader = 'Basic ' + btoa(`${this.settings.api_key}:${this.settings.api_secret}`);
+    const params = new URLSearchParams({ max_results: String(query.max_results ?? 30) });
+    if (query.next_cursor) params.set('next_cursor', query.next_cursor);
+    let path: string;
+    if (query.tag) {
+      path = `resources/${resourceType}/tags/${encodeURIComponent(query.tag)}`;
     } else {
-      // Node/electron fallback
-      // eslint-disable-next-line @typescript-eslint/no-var-requires
-      const b = Buffer.from(`${this.settings.api_key}:${this.settings.api_secret}`);
-      authHeader = 'Basic ' + b.toString('base64');
+      path = `resources/${resourceType}/upload`;
+      if (prefix) params.set('prefix', prefix);
     }
 
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: {
-        Authorization: authHeader,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(body),
+    const response = await sendRequest({
+      method: 'GET',
+      url: `${this.apiUrl(path)}?${params.toString()}`,
+      headers: { Authorization: basicAuthHeader(this.settings.api_key, this.settings.api_secret) },
     });
-
     const text = await response.text();
     if (!response.ok) {
-      // Try parse error
+      let message = text;
       try {
-        const json = JSON.parse(text);
-        throw new Error(json.error?.message || text);
+        message = JSON.parse(text).error?.message || text;
       } catch (e) {
-        throw new Error(`Create preset failed: ${response.status} ${text}`);
+        // not JSON: keep the raw body
       }
+      throw new Error(`Listing resources failed: ${response.status} ${message}`);
+    }
+
+    let json: any;
+    try {
+      json = JSON.parse(text);
+    } catch (e) {
+      throw new Error('Invalid response from resource listing');
+    }
+
+    let resources: CloudinaryResource[] = Array.isArray(json.resources) ? json.resources : [];
+    if (query.tag && prefix) resources = resources.filter((r) => r.public_id.startsWith(prefix));
+    return { resources, next_cursor: json.next_cursor || undefined };
+  }
+
+  private apiUrl(path: string): string {
+    const base = (this.settings.api_base_url || API_BASE_URL).replace(/\/+$/, '');
+    return `${base}/${this.settings.cloud_name}/${path}`;
+  }
+
+  private canSign(): boolean {
+    return !!(this.settings.api_secret || this.settings.signature_endpoint);
+  }
+
+  /**
+   * Sign request parameters, locally when `api_secret` is available, otherwise through `signature_endpoint`.
+   * Returns the fields to add to the request. `signal` cancels the call to the signing endpoint along with the upload.
+   */
+  private async signParams(params: Record<string, string>, signal?: AbortSignal): Promise<SignedFields> {
+    const timestamp = String(Math.floor(Date.now() / 1000));
+
+    if (this.settings.api_secret) {
+      if (!this.settings.api_key) {
+        throw new Error('Signed uploads require api_key and api_secret');
+      }
+      const signature = await sha1Hex(`${buildSignaturePayload({ ...params, timestamp })}${this.settings.api_secret}`);
+      return { timestamp, api_key: this.settings.api_key, signature };
+    }
+
+    return requestRemoteSignature(this.settings.signature_endpoint as string, { ...params, timestamp }, this.settings.api_key, signal);
+  }
+
+  /**
+   * Create an upload preset for the current Cloudinary account: unsigned by default, optionally restricted
+   * to a folder, tags, allowed formats, a max file size and an incoming transformation.
+   * Requires api_key and api_secret (and allow storing the secret enabled by the user).
+   */
+  async createUploadPreset(preset: string | UploadPresetConfig): Promise<any> {
+    const config = typeof preset === 'string' ? { name: preset, unsigned: true } : preset;
+    if (!this.settings.api_key || !this.settings.api_secret) {
+      throw new Error('API key and secret required to create upload preset');
+    }
+
+    const response = await this.presetRequest('POST', 'upload_presets', buildPresetParams(config));
+    const text = await response.text();
+    if (!response.ok) {
+      throw new Error(`Create preset failed: ${response.status} ${text}`);
     }
 
     try {
@@ -130,6 +390,138 @@ export class CloudinaryUploader {
       throw new Error('Invalid response from create upload preset');
     }
   }
+
+  /**
+   * Read an existing upload preset, or undefined when there is no preset with this name.
+   */
+  async getUploadPreset(name: string): Promise<UploadPresetConfig | undefined> {
+    if (!this.settings.api_key || !this.settings.api_secret) {
+      throw new Error('API key and secret required to read upload preset');
+    }
+
+    const response = await this.presetRequest('GET', `upload_presets/${encodeURIComponent(name)}`);
+    const text = await response.text();
+    if (response.status === 404) return undefined;
+    if (!response.ok) {
+      throw new Error(`Read preset failed: ${response.status} ${text}`);
+    }
+
+    try {
+      return presetConfigFromResponse(JSON.parse(text));
+    } catch (e) {
+      throw new Error('Invalid response from read upload preset');
+    }
+  }
+
+  /**
+   * Replace the settings of an existing upload preset. Cleared fields are sent empty so they are removed.
+   */
+  async updateUploadPreset(config: UploadPresetConfig): Promise<any> {
+    if (!this.settings.api_key || !this.settings.api_secret) {
+      throw new Error('API key and secret required to update upload preset');
+    }
+
+    const { name, ...params } = buildPresetParams(config, true);
+    const response = await this.presetRequest('PUT', `upload_presets/${encodeURIComponent(String(name))}`, params);
+    const text = await response.text();
+    if (!response.ok) {
+      throw new Error(`Update preset failed: ${response.status} ${text}`);
+    }
+
+    try {
+      return JSON.parse(text || '{}');
+    } catch (e) {
+      throw new Error('Invalid response from update upload preset');
+    }
+  }
+
+  private presetRequest(method: string, path: string, body?: Record<string, string | boolean | number>): Promise<HttpResponse> {
+    return sendRequest({
+      method,
+      url: this.apiUrl(path),
+      headers: {
+        Authorization: basicAuthHeader(this.settings.api_key as string, this.settings.api_secret as string),
+        ...(body ? { 'Content-Type': 'application/json' } : {}),
+      },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+  }
+}
+
+/**
+ * Convert upload options to the string form Cloudinary expects:
+ * tags are comma separated, context is `key=value|key2=value2` (with `=` and `|` escaped in values).
+ */
+export function serializeUploadParams(options: CloudinaryUploadOptions): Record<string, string> {
+  const params: Record<string, string> = {};
+  if (options.folder) params.folder = options.folder.replace(/^\/+|\/+$/g, '');
+  if (options.public_id) params.public_id = options.public_id;
+
+  const tags = Array.isArray(options.tags) ? options.tags : String(options.tags ?? '').split(',');
+  const cleanTags = tags.map((t) => t.trim()).filter(Boolean);
+  if (cleanTags.length) params.tags = cleanTags.join(',');
+
+  if (typeof options.context === 'string') {
+    if (options.context) params.context = options.context;
+  } else if (options.context && Object.keys(options.context).length) {
+    params.context = Object.entries(options.context)
+      .map(([key, value]) => `${key}=${String(value).replace(/([=|])/g, '\\$1')}`)
+      .join('|');
+  }
+
+  if (options.overwrite !== undefined) params.overwrite = String(options.overwrite);
+  if (options.transformation) params.transformation = options.transformation;
+  return params;
+}
+
+/**
+ * Build the string Cloudinary signs: parameters sorted by name, as `key=value` joined with `&`.
+ * Empty values are left out, as Cloudinary ignores them when checking the signature.
+ */
+export function buildSignaturePayload(params: Record<string, string>): string {
+  return Object.keys(params)
+    .filter((key) => params[key] !== undefined && params[key] !== '')
+    .sort()
+    .map((key) => `${key}=${params[key]}`)
+    .join('&');
+}
+
+/**
+ * Ask a trusted server to sign the parameters.
+ * The server receives `{ params_to_sign }` and must answer `{ signature, timestamp?, api_key? }`;
+ * `timestamp` and `api_key` default to the values sent / configured in the plugin.
+ */
+async function requestRemoteSignature(
+  endpoint: string,
+  paramsToSign: Record<string, string>,
+  apiKey?: string,
+  signal?: AbortSignal
+): Promise<SignedFields> {
+  const response = await sendRequest({
+    method: 'POST',
+    url: endpoint,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ params_to_sign: paramsToSign }),
+    signal,
+  });
+
+  const text = await response.text();
+  if (!response.ok) {
+    throw new Error(`Signing endpoint failed: ${response.status} ${text}`);
+  }
+
+  let json: any;
+  try {
+    json = JSON.parse(text);
+  } catch (e) {
+    throw new Error('Invalid response from signing endpoint');
+  }
+
+  const apiKeyToUse = json.api_key || apiKey;
+  if (!json.signature) throw new Error('Signing endpoint did not return a signature');
+  if (!apiKeyToUse) throw new Error('Signing endpoint did not return an api_key and none is configured');
+
+  return { signature: String(json.signature), timestamp: String(json.timestamp ?? paramsToSign.timestamp), api_key: String(apiKeyToUse) };
 }
 
 async function sha1Hex(input: string): Promise<string> {
@@ -160,15 +552,188 @@ export async function ensureUploadPreset(settings: any, uploaderCtor: any = Clou
   if (settings.uploadPreset) return settings.uploadPreset;
   if (!(settings.allowStoreApiSecret && settings.apiKey && settings.apiSecret)) return undefined;
 
-  const presetName = 'obsidian_auto_unsigned';
+  const config = defaultPresetConfig(settings);
+  const uploader = new uploaderCtor({ cloud_name: settings.cloudName, api_key: settings.apiKey, api_secret: settings.apiSecret });
+  await createUnsignedPreset(uploader, config);
+  return config.name;
+}
+
+/**
+ * Create the unsigned preset `config`. When a preset with this name already exists it is read back: kept when it is
+ * unsigned, updated to `config` otherwise, as a signed preset would reject the plugin's unsigned uploads.
+ */
+export async function createUnsignedPreset(uploader: CloudinaryUploader, config: UploadPresetConfig): Promise<'created' | 'existing' | 'updated'> {
   try {
-    const uploader = new uploaderCtor({ cloud_name: settings.cloudName, api_key: settings.apiKey, api_secret: settings.apiSecret });
-    const res = await uploader.createUploadPreset(presetName);
-    return (res && res.name) || presetName;
+    await uploader.createUploadPreset(config);
+    return 'created';
   } catch (e: any) {
     const msg = e instanceof Error ? e.message : String(e);
-    // If preset already exists, return the name
-    if (/already exists|already/i.test(msg)) return presetName;
-    throw e;
+    if (!/already exists/i.test(msg)) throw e;
+  }
+
+  const existing = await uploader.getUploadPreset(config.name);
+  if (existing?.unsigned) return 'existing';
+  await uploader.updateUploadPreset(config);
+  return 'updated';
+}
+
+export const DEFAULT_PRESET_NAME = 'obsidian_auto_unsigned';
+
+/**
+ * Restricted unsigned preset matching the plugin settings: upload folder and tags, the configured media
+ * extensions as allowed formats and the auto-upload size limit (unless large files are allowed).
+ */
+export function defaultPresetConfig(settings: any): UploadPresetConfig {
+  const formats = MEDIA_KINDS.flatMap((kind) => parseExtensionList(settings?.[MEDIA_EXTENSION_SETTINGS[kind]] ?? DEFAULT_MEDIA_EXTENSIONS[kind]));
+  const maxMB = Number(settings?.maxAutoUploadSizeMB) || 0;
+  return {
+    name: DEFAULT_PRESET_NAME,
+    unsigned: true,
+    folder: settings?.cloudinaryFolder || undefined,
+    tags: settings?.cloudinaryTags || undefined,
+    allowed_formats: [...new Set(formats)],
+    max_file_size: maxMB > 0 && !settings?.uploadLargeFiles ? Math.round(maxMB * 1024 * 1024) : undefined,
+  };
+}
+
+/**
+ * Create the preset, or update it when a preset with this name already exists.
+ */
+export async function saveUploadPreset(uploader: CloudinaryUploader, config: UploadPresetConfig): Promise<'created' | 'updated'> {
+  if (await uploader.getUploadPreset(config.name)) {
+    await uploader.updateUploadPreset(config);
+    return 'updated';
+  }
+  await uploader.createUploadPreset(config);
+  return 'created';
+}
+
+/**
+ * Admin API parameters of a preset. With `includeEmpty`, unset fields are sent as empty strings
+ * so an update clears them.
+ */
+function buildPresetParams(config: UploadPresetConfig, includeEmpty = false): Record<string, string | boolean | number> {
+  const list = (value: string[] | string | undefined) =>
+    (Array.isArray(value) ? value : String(value ?? '').split(','))
+      .map((item) => item.trim())
+      .filter(Boolean)
+      .join(',');
+
+  const params: Record<string, string | boolean | number> = { name: config.name, unsigned: config.unsigned ?? true };
+  const optional: Record<string, string | number> = {
+    folder: String(config.folder ?? '').replace(/^\/+|\/+$/g, ''),
+    tags: list(config.tags),
+    allowed_formats: list(config.allowed_formats).toLowerCase(),
+    max_file_size: config.max_file_size && config.max_file_size > 0 ? config.max_file_size : '',
+    transformation: String(config.transformation ?? '').trim(),
+  };
+  for (const [key, value] of Object.entries(optional)) {
+    if (value !== '' || includeEmpty) params[key] = value;
+  }
+  return params;
+}
+
+// Keys of transformation objects returned by the Admin API, as URL parameters
+const TRANSFORMATION_PARAMS: Record<string, string> = {
+  width: 'w',
+  height: 'h',
+  crop: 'c',
+  gravity: 'g',
+  quality: 'q',
+  fetch_format: 'f',
+  angle: 'a',
+  effect: 'e',
+};
+
+/**
+ * Preset config from an upload_presets response (`{ name, unsigned, settings: {...} }`).
+ * Incoming transformations come back as objects (`[{ crop: 'limit', width: 2000 }]`) and are turned back into a chain.
+ */
+function presetConfigFromResponse(json: any): UploadPresetConfig {
+  const settings = json?.settings ?? {};
+  let transformation = settings.transformation;
+  if (Array.isArray(transformation)) {
+    transformation = transformation
+      .map((step: any) =>
+        typeof step === 'string'
+          ? step
+          : Object.entries(step ?? {})
+              .filter(([key]) => TRANSFORMATION_PARAMS[key])
+              .map(([key, value]) => `${TRANSFORMATION_PARAMS[key]}_${value}`)
+              .join(',')
+      )
+      .filter(Boolean)
+      .join('/');
   }
+  return {
+    name: String(json?.name ?? ''),
+    unsigned: !!json?.unsigned,
+    folder: settings.folder || undefined,
+    tags: settings.tags || undefined,
+    allowed_formats: settings.allowed_formats || undefined,
+    max_file_size: Number(settings.max_file_size) || undefined,
+    transformation: transformation || undefined,
+  };
+}
+
+function basicAuthHeader(username: string, password: string): string {
+  if (typeof btoa !== 'undefined') {
+    return 'Basic ' + btoa(`${username}:${password}`);
+  }
+  // Node/electron fallback
+  return 'Basic ' + Buffer.from(`${username}:${password}`).toString('base64');
+}
+
+function toAsset(data: CloudinaryResponse): UploadedAsset {
+  return {
+    url: data.secure_url,
+    public_id: data.public_id ?? null,
+    resource_type: data.resource_type,
+    width: data.width,
+    height: data.height,
+    bytes: data.bytes,
+    format: data.format,
+    version: data.version,
+    existing: data.existing || undefined,
+  };
+}
+
+function buildUploadForm(file: Blob, name: string, params: Record<string, string>): FormData {
+  const formData = new FormData();
+  formData.append('file', file, name);
+  for (const [key, value] of Object.entries(params)) {
+    formData.append(key, value);
+  }
+  return formData;
+}
+
+async function readUploadError(response: HttpResponse): Promise<Error> {
+  const bodyText = await response.text();
+  let message = bodyText;
+  try {
+    // Cloudinary errors are JSON: { error: { message } }
+    message = JSON.parse(bodyText).error?.message || bodyText;
+  } catch (e) {
+    // not JSON: keep the raw body
+  }
+  return new Error(`Upload failed: ${response.status} ${message}`);
+}
+
+function isTransientStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+function waitFor(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(new UploadCancelledError());
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new UploadCancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
 }
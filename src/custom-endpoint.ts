@@ -0,0 +1,111 @@
+import { sendRequest } from './http';
+import type { UploadedAsset, UploadOptions, UploadProvider } from './provider';
+
+interface CustomEndpointSettings {
+  url: string;
+  file_field?: string; // multipart field receiving the file (default: `file`)
+  extra_fields?: Record<string, string>;
+  headers?: Record<string, string>;
+  response_url_path?: string; // dotted path to the final URL in the JSON response, e.g. `data.link`
+}
+
+/**
+ * Generic multipart uploader for services that accept `POST multipart/form-data` and answer JSON
+ * (Imgur, self-hosted image hosts, internal services...).
+ */
+export class CustomEndpointUploader implements UploadProvider {
+  private settings: CustomEndpointSettings;
+
+  constructor(settings: CustomEndpointSettings) {
+    this.settings = settings;
+  }
+
+  describe(): string {
+    try {
+      return `Custom endpoint (${new URL(this.settings.url).host})`;
+    } catch (e) {
+      return 'Custom endpoint';
+    }
+  }
+
+  async upload(fileOrBlob: File | Blob, filename?: string, options: UploadOptions = {}): Promise<UploadedAsset> {
+    if (!this.settings.url) throw new Error('Custom endpoint uploads require an upload URL');
+
+    const formData = new FormData();
+    for (const [name, value] of Object.entries(this.settings.extra_fields ?? {})) {
+      formData.append(name, value);
+    }
+
+    const field = this.settings.file_field || 'file';
+    if (fileOrBlob instanceof File) {
+      formData.append(field, fileOrBlob);
+    } else {
+      formData.append(field, fileOrBlob, filename || `upload-${Date.now()}.png`);
+    }
+
+    const response = await sendRequest({
+      method: 'POST',
+      url: this.settings.url,
+      headers: this.settings.headers ?? {},
+      body: formData,
+      onProgress: options.onProgress,
+      signal: options.signal,
+    });
+
+    const bodyText = await response.text();
+    if (!response.ok) {
+      throw new Error(`Upload failed: ${response.status} ${bodyText}`);
+    }
+
+    let json: any;
+    try {
+      json = JSON.parse(bodyText);
+    } catch (e) {
+      throw new Error('Invalid response from custom endpoint: expected JSON');
+    }
+
+    const path = this.settings.response_url_path || 'url';
+    const url = getValueAtPath(json, path);
+    if (typeof url !== 'string' || !url) {
+      throw new Error(`No URL found at "${path}" in the custom endpoint response`);
+    }
+    // Deleting is not supported, so there is no id to keep
+    return { url, public_id: null, bytes: fileOrBlob.size };
+  }
+
+  async delete(_id: string): Promise<void> {
+    throw new Error('Deleting assets is not supported by the custom endpoint provider');
+  }
+}
+
+/**
+ * Read a value from parsed JSON with a dotted path: `data.link`, `files[0].url` or `files.0.url`.
+ */
+export function getValueAtPath(obj: any, path: string): any {
+  const segments = path
+    .replace(/\[(\d+)\]/g, '.$1')
+    .split('.')
+    .filter(Boolean);
+  let current = obj;
+  for (const segment of segments) {
+    if (current === null || current === undefined) return undefined;
+    current = current[segment];
+  }
+  return current;
+}
+
+/**
+ * Parse one `key<separator>value` pair per line, ignoring blank lines and `#` comments.
+ * Used for the extra form fields (`name=value`) and headers (`Name: value`) settings.
+ */
+export function parseKeyValueLines(text: string | undefined, separator: string): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const rawLine of String(text || '').split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) continue;
+    const index = line.indexOf(separator);
+    if (index <= 0) continue;
+    result[line.slice(0, index).trim()] = line.slice(index + separator.length).trim();
+  }
+  return result;
+}
@@ -0,0 +1,57 @@
+import { App, Modal } from 'obsidian';
+import type { DeleteAssetDecision, DeleteAssetRequest } from './delete-asset';
+
+/**
+ * Confirmation before destroying a Cloudinary asset. Offers to swap the link back to the local copy when there is one.
+ */
+export class DeleteAssetModal extends Modal {
+  private readonly request: DeleteAssetRequest;
+  private resolve?: (decision: DeleteAssetDecision | undefined) => void;
+  private restoreLocal = true;
+
+  constructor(app: App, request: DeleteAssetRequest) {
+    super(app);
+    this.request = request;
+  }
+
+  /** Open the modal and resolve with the decision, or undefined when dismissed. */
+  prompt(): Promise<DeleteAssetDecision | undefined> {
+    return new Promise((resolve) => {
+      this.resolve = resolve;
+      this.open();
+    });
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.createEl('h3', { text: 'Delete from Cloudinary?' });
+    contentEl.createEl('p', { text: `${this.request.publicId} (${this.request.resourceType}) will be deleted. This cannot be undone.` });
+
+    if (this.request.localPath) {
+      const label = contentEl.createEl('label');
+      const checkbox = label.createEl('input', { type: 'checkbox' });
+      checkbox.checked = this.restoreLocal;
+      checkbox.addEventListener('change', () => (this.restoreLocal = checkbox.checked));
+      label.appendText(` Replace the link with the local copy (${this.request.localPath})`);
+    }
+
+    const row = contentEl.createDiv({ cls: 'setting-item' });
+    const deleteBtn = row.createEl('button', { text: 'Delete', cls: 'mod-warning' });
+    deleteBtn.addEventListener('click', () => this.finish({ restoreLocal: !!this.request.localPath && this.restoreLocal }));
+    const cancelBtn = row.createEl('button', { text: 'Cancel' });
+    cancelBtn.addEventListener('click', () => this.finish(undefined));
+  }
+
+  onClose() {
+    this.contentEl.empty();
+    // Closing with Escape or the X button cancels
+    this.resolve?.(undefined);
+    this.resolve = undefined;
+  }
+
+  private finish(decision: DeleteAssetDecision | undefined) {
+    this.resolve?.(decision);
+    this.resolve = undefined;
+    this.close();
+  }
+}
@@ -0,0 +1,96 @@
+import { TFile } from 'obsidian';
+import { CloudinaryCache } from './cache';
+import { CloudinaryUploader } from './cloudinary';
+import { findLinkAt, parseCloudinaryUrl } from './cloudinary-url';
+import { cloudinaryCanSign, createCloudinaryUploader } from './provider';
+
+/** What the confirmation step shows before anything is deleted. */
+export interface DeleteAssetRequest {
+  url: string;
+  publicId: string;
+  resourceType: string;
+  localPath?: string; // local copy the link can be swapped back to
+}
+
+export interface DeleteAssetDecision {
+  restoreLocal: boolean;
+}
+
+export interface DeleteAssetOptions {
+  /** Ask the user; resolve undefined to cancel. */
+  confirm: (request: DeleteAssetRequest) => Promise<DeleteAssetDecision | undefined>;
+  notify?: (msg: string) => void;
+  uploaderCtor?: any;
+}
+
+/**
+ * Delete the Cloudinary asset linked under the editor cursor:
+ * resolve its public_id (shared cache first, URL otherwise), destroy it, drop its cache entries and,
+ * when the user asks for it, swap the link back to the local copy of the file.
+ * Returns true when the asset was deleted.
+ */
+export async function deleteAssetAtCursor(app: any, settings: any, editor: any, options: DeleteAssetOptions): Promise<boolean> {
+  const notify = options.notify ?? (() => {});
+  const cursor = editor.getCursor();
+  const line: string = editor.getLine(cursor.line);
+  const link = findLinkAt(line, cursor.ch);
+  const parts = link ? parseCloudinaryUrl(link.url) : undefined;
+
+  const cache = settings.cacheFilePath ? new CloudinaryCache(app, settings.cacheFilePath) : undefined;
+  // The shared cache also holds S3, WebDAV and custom endpoint uploads: only Cloudinary entries can be destroyed here
+  const cached = link ? ((await cache?.findEntriesByUrl(link.url)) ?? []).filter(([, e]) => parseCloudinaryUrl(e.url)) : [];
+  const entry = cached.find(([, e]) => e.public_id)?.[1] ?? cached[0]?.[1];
+
+  if (!link || (!parts && !entry)) {
+    notify('⚠️ No Cloudinary link under the cursor');
+    return false;
+  }
+
+  const publicId = entry?.public_id || parts?.public_id;
+  if (!publicId) {
+    notify('❌ Could not find the public_id of this asset');
+    return false;
+  }
+  if (!cloudinaryCanSign(settings)) {
+    notify('❌ Deleting assets requires the API secret (signed uploads) or a signing endpoint');
+    return false;
+  }
+
+  const resourceType = entry?.resource_type || parts?.resource_type || 'image';
+  const localFile = findLocalCopy(app, settings, entry?.filename);
+  const decision = await options.confirm({ url: link.url, publicId, resourceType, localPath: localFile?.path });
+  if (!decision) return false;
+
+  try {
+    const uploader = createCloudinaryUploader(settings, options.uploaderCtor ?? CloudinaryUploader);
+    await uploader.delete(publicId, resourceType);
+  } catch (e: any) {
+    if (settings?.debugLogs) console.error('[img_upload] delete failed', e);
+    notify(`❌ ${e?.message || String(e)}`);
+    return false;
+  }
+
+  await cache?.removeEntries(cached.map(([hash]) => hash));
+
+  if (decision.restoreLocal && localFile) {
+    editor.replaceRange(
+      `![${link.alt}](${encodeURI(localFile.path)})`,
+      { line: cursor.line, ch: link.from },
+      { line: cursor.line, ch: link.to }
+    );
+  }
+
+  notify(`✅ Deleted ${publicId} from Cloudinary`);
+  return true;
+}
+
+/**
+ * Local file with the uploaded file name, preferring the local copy folder.
+ */
+function findLocalCopy(app: any, settings: any, filename: string | null | undefined): TFile | undefined {
+  if (!filename) return undefined;
+  const folder = String(settings.localCopyFolder || '').replace(/^\/+|\/+$/g, '');
+  const inFolder = folder ? app.vault.getAbstractFileByPath(`${folder}/${filename}`) : null;
+  if (inFolder instanceof TFile) return inFolder;
+  return (app.vault.getFiles?.() ?? []).find((file: TFile) => file.name === filename);
+}
@@ -0,0 +1,58 @@
+import { buildCloudinaryUrl, CloudinaryUrlParts, findLinkAt, parseCloudinaryUrl } from './cloudinary-url';
+import { buildTransformationChain, parseTransformationFields, TransformationFields } from './transformations';
+
+/** What the transformation editor starts from. */
+export interface TransformationEditRequest {
+  url: string;
+  parts: CloudinaryUrlParts;
+  fields: TransformationFields;
+  rest: string; // part of the chain the editor does not manage (effects, overlays...), kept in place
+}
+
+export interface EditTransformationOptions {
+  /** Show the editor; resolve with the edited fields, or undefined to cancel. */
+  edit: (request: TransformationEditRequest) => Promise<TransformationFields | undefined>;
+  notify?: (msg: string) => void;
+}
+
+/**
+ * Delivery URL of `parts` with `fields` applied to its transformation chain. The query string and hash of
+ * `originalUrl` (the link being edited) are kept.
+ */
+export function buildEditedUrl(parts: CloudinaryUrlParts, fields: TransformationFields, originalUrl = ''): string {
+  const suffix = /[?#].*$/.exec(originalUrl)?.[0] ?? '';
+  return buildCloudinaryUrl({ ...parts, transformation: buildTransformationChain(fields, parts.transformation) || null }) + suffix;
+}
+
+/**
+ * Edit the transformations of the Cloudinary link under the editor cursor and write the rebuilt URL
+ * back into the same link, so the alt text and the embed syntax are kept.
+ * Returns true when the link was changed.
+ */
+export async function editTransformationAtCursor(editor: any, options: EditTransformationOptions): Promise<boolean> {
+  const notify = options.notify ?? (() => {});
+  const cursor = editor.getCursor();
+  const line: string = editor.getLine(cursor.line);
+  const link = findLinkAt(line, cursor.ch);
+  const parts = link ? parseCloudinaryUrl(link.url) : undefined;
+  if (!link || !parts) {
+    notify('⚠️ No Cloudinary link under the cursor');
+    return false;
+  }
+  if (parts.resource_type === 'raw') {
+    notify('⚠️ Raw files cannot be transformed');
+    return false;
+  }
+
+  const { fields, rest } = parseTransformationFields(parts.transformation);
+  const edited = await options.edit({ url: link.url, parts, fields, rest });
+  if (!edited) return false;
+
+  const url = buildEditedUrl(parts, edited, link.url);
+  if (url === link.url) return false;
+
+  // Function replacer: `$&` or `$1` typed in a field must not be expanded
+  const embed = line.slice(link.from, link.to).replace(link.url, () => url);
+  editor.replaceRange(embed, { line: cursor.line, ch: link.from }, { line: cursor.line, ch: link.to });
+  return true;
+}
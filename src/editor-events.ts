@@ -0,0 +1,176 @@
+import { CloudinaryCache } from './cache';
+import { isUploadCancelled } from './http';
+import { AltTextPrompt, askAltTexts } from './link-template';
+import { BatchUploadResult, formatBatchSummary, ImageBlob, uploadImageBlobs } from './paste';
+import { finishUploadPlaceholder, insertUploadPlaceholder, replaceUploadPlaceholder } from './placeholder';
+import type { UploadProgressHandle } from './progress';
+import { createCloudinaryUploader, getProviderId, providerCanUpload } from './provider';
+import { findRemoteImages, formatRehostSummary, rehostHtmlImages, RehostResult } from './remote-images';
+import { buildImageLink } from './responsive';
+
+export interface EditorEventOptions {
+  notify?: (msg: string) => void;
+  startProgress?: (label: string) => UploadProgressHandle | undefined;
+  promptAlt?: AltTextPrompt; // alt text prompt, used when "Ask for alt text" is on
+  uploader?: any; // test double, defaults to the provider selected in settings (Cloudinary to re-host remote images)
+}
+
+interface EditorPosition {
+  line: number;
+  ch: number;
+}
+
+/**
+ * Image files carried by a paste or drop event (other data is left to Obsidian).
+ */
+export function getImageFiles(data: DataTransfer | null | undefined): File[] {
+  if (!data) return [];
+  const files = Array.from(data.files ?? []).filter((file) => file.type.startsWith('image/'));
+  if (files.length) return files;
+  // Screenshots are often only exposed as items
+  return Array.from(data.items ?? [])
+    .filter((item) => item.kind === 'file' && item.type.startsWith('image/'))
+    .map((item) => item.getAsFile())
+    .filter((file): file is File => !!file);
+}
+
+/**
+ * `editor-paste` handler: upload pasted images and insert their links in place of the selection.
+ * The event is taken over synchronously (Obsidian then creates no attachment); resolves true when it was.
+ */
+export async function handleEditorPaste(evt: ClipboardEvent, editor: any, app: any, settings: any, options: EditorEventOptions = {}): Promise<boolean> {
+  const files = takeImageFiles(evt, evt.clipboardData, settings);
+  if (files) {
+    await uploadAndInsert(files, editor, editor.getCursor('from'), editor.getCursor('to'), app, settings, options);
+    return true;
+  }
+  const html = takeRemoteImagesHtml(evt, settings);
+  if (html === undefined) return false;
+  await rehostAndInsert(html, editor, editor.getCursor('from'), editor.getCursor('to'), app, settings, options);
+  return true;
+}
+
+/**
+ * `editor-drop` handler: upload dropped images and insert their links where they were dropped.
+ */
+export async function handleEditorDrop(evt: DragEvent, editor: any, app: any, settings: any, options: EditorEventOptions = {}): Promise<boolean> {
+  const files = takeImageFiles(evt, evt.dataTransfer, settings);
+  if (!files) return false;
+  const position = getDropPosition(evt, editor);
+  await uploadAndInsert(files, editor, position, position, app, settings, options);
+  return true;
+}
+
+/**
+ * Image files of the event when the plugin should handle it; the default action is prevented synchronously,
+ * before any await, so Obsidian never writes an attachment to the vault.
+ */
+function takeImageFiles(evt: Event, data: DataTransfer | null, settings: any): File[] | undefined {
+  if (!settings?.handleEditorPasteDrop || evt.defaultPrevented || !providerCanUpload(settings)) return undefined;
+  const files = getImageFiles(data);
+  if (!files.length) return undefined;
+  evt.preventDefault();
+  return files;
+}
+
+/**
+ * HTML of a paste copied from a web page with remote images, when "Re-host images pasted from web pages" is on
+ * (Cloudinary only: it fetches the images itself). The default action is prevented synchronously.
+ */
+function takeRemoteImagesHtml(evt: ClipboardEvent, settings: any): string | undefined {
+  if (!settings?.rehostPastedImages || evt.defaultPrevented) return undefined;
+  if (getProviderId(settings) !== 'cloudinary' || !providerCanUpload(settings)) return undefined;
+  const html = evt.clipboardData?.getData('text/html');
+  if (!html || !findRemoteImages(html).length) return undefined;
+  evt.preventDefault();
+  return html;
+}
+
+/**
+ * Editor position under the drop point (CodeMirror 6), or the cursor when it cannot be resolved.
+ */
+function getDropPosition(evt: DragEvent, editor: any): EditorPosition {
+  const offset = editor.cm?.posAtCoords?.({ x: evt.clientX, y: evt.clientY });
+  if (typeof offset === 'number' && typeof editor.offsetToPos === 'function') return editor.offsetToPos(offset);
+  return editor.getCursor();
+}
+
+async function uploadAndInsert(
+  files: File[],
+  editor: any,
+  from: EditorPosition,
+  to: EditorPosition,
+  app: any,
+  settings: any,
+  options: EditorEventOptions
+) {
+  const notify = options.notify ?? (() => {});
+  const cache = settings.cacheFilePath ? new CloudinaryCache(app, settings.cacheFilePath) : undefined;
+  const stamp = Date.now();
+  // Pasted screenshots are all called image.png: give them a unique name
+  const screenshots = files.map((file) => !file.name || file.name === 'image.png');
+  const images: ImageBlob[] = files.map((file, index) => {
+    const suffix = files.length > 1 ? `-${index + 1}` : '';
+    return { blob: file, filename: screenshots[index] ? `image-${stamp}${suffix}.${file.type.split('/')[1] || 'png'}` : file.name };
+  });
+
+  const label = images.length > 1 ? `${images.length} images` : images[0].filename;
+  // Editing can go on during the upload: the links replace this placeholder wherever it ends up
+  const placeholder = insertUploadPlaceholder(app, editor, label, undefined, { from, to });
+  const progress = options.startProgress?.(label);
+  if (!progress) notify('⏳ Uploading...');
+  let result: BatchUploadResult;
+  let alts: string[];
+  try {
+    // Alt texts are asked while the images upload
+    const defaults = images.map((image, index) => ({ label: image.filename, alt: screenshots[index] ? 'image' : image.filename.replace(/\.[^.]+$/, '') }));
+    [result, alts] = await Promise.all([
+      uploadImageBlobs(settings, images, options.uploader, cache, {
+        onProgress: progress ? (loaded: number, total: number) => progress.onProgress(loaded, total) : undefined,
+        signal: progress?.signal,
+        note: app.workspace?.getActiveFile?.(),
+      }),
+      askAltTexts(settings, defaults, options.promptAlt),
+    ]);
+  } catch (e) {
+    await finishUploadPlaceholder(app, placeholder, label, [], e);
+    notify(`❌ Error: ${e instanceof Error ? e.message : String(e)}`);
+    return;
+  } finally {
+    progress?.finish();
+  }
+
+  // One line per image, in the original order; failed images are left out
+  const note = app.workspace?.getActiveFile?.()?.basename;
+  const links = result.items.flatMap((item, index) =>
+    item.url ? [buildImageLink(item.url, settings, { alt: alts[index], asset: item.asset, filename: item.filename, note })] : []
+  );
+  const error = result.items.find((item) => item.error && !isUploadCancelled(item.error))?.error;
+  await finishUploadPlaceholder(app, placeholder, label, links, error);
+  notify(formatBatchSummary(result));
+}
+
+async function rehostAndInsert(html: string, editor: any, from: EditorPosition, to: EditorPosition, app: any, settings: any, options: EditorEventOptions) {
+  const notify = options.notify ?? (() => {});
+  const cache = settings.cacheFilePath ? new CloudinaryCache(app, settings.cacheFilePath) : undefined;
+  const count = findRemoteImages(html).length;
+  const label = `${count} remote image${count === 1 ? '' : 's'}`;
+  const placeholder = insertUploadPlaceholder(app, editor, label, undefined, { from, to });
+  const progress = options.startProgress?.(label);
+  if (!progress) notify('⏳ Uploading...');
+  let result: RehostResult;
+  try {
+    result = await rehostHtmlImages(settings, html, options.uploader ?? createCloudinaryUploader(settings), cache, {
+      signal: progress?.signal,
+      note: app.workspace?.getActiveFile?.(),
+    });
+  } catch (e) {
+    await finishUploadPlaceholder(app, placeholder, label, [], e);
+    notify(`❌ Error: ${e instanceof Error ? e.message : String(e)}`);
+    return;
+  } finally {
+    progress?.finish();
+  }
+  await replaceUploadPlaceholder(app, placeholder, result.markdown);
+  notify(formatRehostSummary(result));
+}
@@ -1,6 +1,15 @@
 import { MarkdownView, TFile, TFolder } from 'obsidian';
 import { CloudinaryUploader } from './cloudinary';
-import { CloudinaryCache } from './cache';
+import { assetFromCacheEntry, buildCacheEntry, CloudinaryCache } from './cache';
+import { isUploadCancelled } from './http';
+import { ImageEncoder, ProcessedImage, processImageForUpload } from './image-processing';
+import { buildEmbed, getMediaKind, getMimeType, getResourceType, MediaKind } from './media';
+import { formatRemovedMetadata } from './metadata';
+import { NamingNote, uploadWithNaming } from './naming';
+import type { UploadProgressHandle } from './progress';
+import { createUploadProvider, getProviderId, providerCanUpload, providerHasTarget, ProviderId, toUploadedAsset, UploadedAsset } from './provider';
+import { waitForReferencingNotes } from './references';
+import { buildImageLink } from './responsive';
 
 // Track warnings shown per runtime session to avoid spamming the user on startup
 let shownMissingAutoUploadWarning = false;
@@ -8,12 +17,31 @@ let shownMissingAutoUploadWarning = false;
 // Track files the plugin created during this session to avoid re-processing them
 const pluginCreatedFiles = new Set<string>();
 
-const IMAGE_EXTENSIONS = new Set(['png', 'jpg', 'jpeg', 'gif', 'webp', 'svg']);
+const MISSING_CREDENTIALS_NOTICES: Record<ProviderId, string> = {
+  cloudinary: '⚠️ Auto-upload skipped: configure an Upload preset, API Secret or signing endpoint in settings.',
+  s3: '⚠️ Auto-upload skipped: configure the S3 access key and secret key in settings.',
+  webdav: '⚠️ Auto-upload skipped: configure the WebDAV server URL in settings.',
+  custom: '⚠️ Auto-upload skipped: configure the custom endpoint upload URL in settings.',
+};
 
 interface UploadResult {
   url?: string;
+  asset?: UploadedAsset; // provider metadata of the upload, from the shared cache on cache hits
   fromCache: boolean;
   hash: string;
+  cancelled?: boolean;
+  error?: unknown; // set when the upload was attempted and failed, so the caller can queue a retry
+}
+
+export interface ProcessFileCreateOptions {
+  notify?: (msg: string) => void;
+  saveSettings?: (s?: any) => Promise<void>;
+  /** Start a progress indicator for an upload; its signal cancels the upload. */
+  startProgress?: (label: string) => UploadProgressHandle | undefined;
+  /** Called once the note points at its final local file when an upload failed (offline, server error...). */
+  onUploadFailed?: (file: TFile, error: unknown) => void | Promise<void>;
+  /** Resize / re-encode step of images, defaults to the canvas encoder. */
+  encoder?: ImageEncoder;
 }
 
 /**
@@ -44,14 +72,14 @@ export async function processFileCreate(
   settings: any,
   file: TFile,
   uploaderCtor: any = CloudinaryUploader,
-  options: { notify?: (msg: string) => void; saveSettings?: (s?: any) => Promise<void> } = {}
+  options: ProcessFileCreateOptions = {}
 ) {
   const notify = options.notify ?? (() => {});
   const saveSettings = options.saveSettings ?? (async () => {});
 
   if (!file || !file.extension) return;
-  const ext = file.extension.toLowerCase();
-  if (!IMAGE_EXTENSIONS.has(ext)) return;
+  // Only files matching one of the configured extension lists (images, videos, audio, documents) go through the pipeline
+  if (!getMediaKind(file.extension, settings)) return;
 
   // 1. STARTUP PROTECTION: Ignore files created more than 5 seconds ago
   const now = Date.now();
@@ -83,42 +111,11 @@ export async function processFileCreate(
   (processFileCreate as any).uploadingPaths.add(file.path);
 
   try {
-    // 4. REFERENCE CHECK: Only process if the file is referenced in the ACTIVE markdown note
-    let isReferenced = false;
-    let attempts = 0;
-
-    if (settings?.debugLogs) console.log('[img_upload] Waiting for reference in active note for:', file.path);
-
-    while (attempts < 30) {
-      const activeView = app.workspace.getActiveViewOfType?.(MarkdownView) as any;
-      if (activeView && activeView.editor) {
-        const content = activeView.editor.getValue() || '';
-        const fileName = file.name;
-        const baseName = file.basename;
-        const path = file.path;
-
-        // Check various ways Obsidian might link the file
-        if (
-          content.includes(path) ||
-          content.includes(fileName) ||
-          content.includes(`[[${fileName}]]`) ||
-          content.includes(`[[${baseName}]]`) ||
-          content.includes(`(${encodeURIComponent(path)})`) ||
-          content.includes(`(${encodeURIComponent(fileName)})`) ||
-          content.includes(`![[${fileName}]]`) ||
-          content.includes(`![[${baseName}]]`)
-        ) {
-          isReferenced = true;
-          if (settings?.debugLogs) console.log('[img_upload] Reference found for:', file.path, 'after', attempts, 'attempts');
-          break;
-        }
-      }
-      attempts++;
-      await new Promise((resolve) => setTimeout(resolve, 100));
-    }
-
-    if (!isReferenced) {
-      if (settings?.debugLogs) console.log('[img_upload] skipping: file not referenced in active note after 3s', file.path);
+    // 4. REFERENCE CHECK: Only process if a note links to or embeds the file
+    if (settings?.debugLogs) console.log('[img_upload] Waiting for a note referencing:', file.path);
+    const notes = await waitForReferencingNotes(app, file, settings);
+    if (!notes) {
+      if (settings?.debugLogs) console.log('[img_upload] skipping: file not referenced in any note', file.path);
       return;
     }
 
@@ -128,10 +125,16 @@ export async function processFileCreate(
     // 5. UPLOAD LOGIC
     let uploadedUrl: string | undefined;
     let uploadResult: UploadResult | undefined;
-    if (settings.autoUploadOnFileAdd && settings.cloudName) {
+    if (settings.autoUploadOnFileAdd && providerHasTarget(settings)) {
       if (settings?.debugLogs) console.log('[img_upload] Triggering handleUpload for:', file.path);
-      uploadResult = await handleUpload(app, settings, file, data, uploaderCtor, notify, saveSettings, fileHash);
+      const note = notes.length ? app.vault.getAbstractFileByPath?.(notes[0]) : app.workspace?.getActiveFile?.();
+      uploadResult = await handleUpload(app, settings, file, data, uploaderCtor, notify, saveSettings, fileHash, options.startProgress, options.encoder, note);
       uploadedUrl = uploadResult?.url;
+      if (uploadResult?.cancelled) {
+        // The user cancelled: leave the note and the original file exactly as they are
+        if (settings?.debugLogs) console.log('[img_upload] upload cancelled, leaving local link untouched:', file.path);
+        return;
+      }
     }
 
     // 6. LOCAL COPY LOGIC
@@ -177,15 +180,21 @@ export async function processFileCreate(
     // 7. REFERENCE REPLACEMENT
     if (uploadedUrl) {
       // If we uploaded, replace the reference with the URL
-      replaceImageReference(app, file, uploadedUrl, settings, notify, 'replaced');
+      const replacement = uploadResult?.asset ?? uploadedUrl;
+      await replaceImageReference(app, file, replacement, settings, notes, 'replaced');
 
       // If we made a local copy AND uploaded, we should also replace the reference to the local copy
       if (localFile) {
-        replaceImageReference(app, localFile, uploadedUrl, settings, notify, 'replaced-local');
+        await replaceImageReference(app, localFile, replacement, settings, notes, 'replaced-local');
       }
     } else if (localFile) {
       // If we didn't upload but we made a local copy, replace the reference with the new local path
-      replaceImageReference(app, file, localFile.path, settings, notify, 'copied');
+      await replaceImageReference(app, file, localFile.path, settings, notes, 'copied');
+    }
+
+    // 8. RETRY LATER: the note now points at `localFile ?? file`, which is what the retry has to rewrite
+    if (uploadResult?.error && options.onUploadFailed) {
+      await options.onUploadFailed(localFile ?? file, uploadResult.error);
     }
 
     if (settings.deleteSourceAfterUpload && uploadedUrl) {
@@ -215,7 +224,10 @@ async function handleUpload(
   uploaderCtor: any,
   notify: (msg: string) => void,
   saveSettings: (s: any) => Promise<void>,
-  precomputedHash?: string
+  precomputedHash?: string,
+  startProgress?: (label: string) => UploadProgressHandle | undefined,
+  encoder?: ImageEncoder,
+  note?: NamingNote | null
 ): Promise<UploadResult> {
   const fileHash = precomputedHash ?? (await computeSha1(new Uint8Array(data)));
 
@@ -227,61 +239,165 @@ async function handleUpload(
     const entry = await sharedCache.getEntry(fileHash);
     if (entry) {
       if (settings?.debugLogs) console.log('[img_upload] Shared cache hit:', entry.url);
-      return { url: entry.url, fromCache: true, hash: fileHash };
+      return { url: entry.url, asset: assetFromCacheEntry(entry), fromCache: true, hash: fileHash };
     }
   }
 
-  const canUnsigned = !!settings.uploadPreset;
-  const canSigned = !!(settings.allowStoreApiSecret && settings.apiSecret && settings.apiKey);
-  if (!canUnsigned && !canSigned) {
+  if (!providerCanUpload(settings)) {
     if (!shownMissingAutoUploadWarning) {
-      notify('⚠️ Auto-upload skipped: configure an Upload preset or API Secret in settings.');
+      notify(MISSING_CREDENTIALS_NOTICES[getProviderId(settings)]);
       shownMissingAutoUploadWarning = true;
     }
     return { url: undefined, fromCache: false, hash: fileHash };
   }
 
+  const kind = getMediaKind(file.extension, settings) ?? 'image';
+  // Resized / re-encoded before the size limit applies; the cache keeps the hash of the original bytes
+  const prepared = await prepareUpload(file, data, kind, settings, encoder);
+
   const maxMB = settings.maxAutoUploadSizeMB ?? 0;
-  if (maxMB > 0 && data.byteLength > maxMB * 1024 * 1024) {
-    notify(`⚠️ Skipping auto-upload: file exceeds ${maxMB} MB`);
-    return { url: undefined, fromCache: false, hash: fileHash };
+  if (maxMB > 0 && prepared.blob.size > maxMB * 1024 * 1024) {
+    if (!settings.uploadLargeFiles) {
+      notify(`⚠️ Skipping auto-upload: file exceeds ${maxMB} MB`);
+      return { url: undefined, fromCache: false, hash: fileHash };
+    }
+    // Soft limit: large files go through (Cloudinary switches to chunked uploads), the user is only warned
+    notify(`⚠️ ${file.name} exceeds ${maxMB} MB: uploading anyway, this may take a while`);
   }
 
   try {
-    const uploader = new uploaderCtor({
-      cloud_name: settings.cloudName,
-      api_key: settings.apiKey,
-      upload_preset: settings.uploadPreset,
-      api_secret: settings.allowStoreApiSecret ? settings.apiSecret : undefined,
-    });
-
-    if (settings?.debugLogs) console.log('[img_upload] Starting upload to Cloudinary for:', file.path);
-    notify('⏳ Auto uploading image...');
-
-    const url = await uploader.upload(new Blob([data], { type: getMimeFromExt(file.extension) }), file.name);
+    if (isOffline()) throw new Error('No network connection');
+
+    const uploader = createUploadProvider(settings, uploaderCtor);
+
+    if (settings?.debugLogs) console.log('[img_upload] Starting upload to', uploader.describe?.() ?? 'provider', 'for:', file.path);
+    const progress = startProgress?.(file.name);
+    if (!progress) notify('⏳ Auto uploading image...');
+
+    let asset: UploadedAsset;
+    try {
+      const context = { filename: prepared.filename, hash: fileHash, note };
+      asset = await uploadWithNaming(
+        settings,
+        context,
+        async (naming) =>
+          toUploadedAsset(
+            await uploader.upload(prepared.blob, prepared.filename, {
+              onProgress: progress ? (loaded: number, total: number) => progress.onProgress(loaded, total) : undefined,
+              signal: progress?.signal,
+              kind,
+              ...naming,
+            })
+          ),
+        settings.cacheFilePath ? new CloudinaryCache(app, settings.cacheFilePath) : undefined
+      );
+    } finally {
+      progress?.finish();
+    }
 
-    if (settings?.debugLogs) console.log('[img_upload] Upload successful:', url);
+    const url = asset.url;
+    if (settings?.debugLogs) console.log('[img_upload] Upload successful:', asset);
 
     // Persist only to shared cache (if configured) — settings no longer stores per-plugin cache entries.
     // Update shared cache (if configured)
     if (settings.cacheFilePath) {
       const sharedCache = new CloudinaryCache(app, settings.cacheFilePath);
-      await sharedCache.addEntry(fileHash, {
-        url,
-        public_id: null,
-        filename: file.name,
-        uploader: 'obsidian-plugin',
-        uploaded_at: new Date().toISOString(),
-      });
+      await sharedCache.addEntry(fileHash, buildCacheEntry(asset, file.name, cacheResourceType(settings, kind)));
     }
 
-    notify(`✅ Image uploaded: ${url}`);
-    return { url, fromCache: false, hash: fileHash };
+    notify(`✅ Image uploaded: ${url}${prepared.removedMetadata.length ? ` (${formatRemovedMetadata(prepared.removedMetadata)})` : ''}`);
+    return { url, asset, fromCache: false, hash: fileHash };
   } catch (e: any) {
+    if (isUploadCancelled(e)) {
+      notify('⏹ Upload cancelled: the local link was kept');
+      return { url: undefined, fromCache: false, hash: fileHash, cancelled: true };
+    }
     console.error('[img_upload] Upload failed:', e);
     notify(`❌ Upload failed: ${e.message || String(e)}`);
-    return { url: undefined, fromCache: false, hash: fileHash };
+    return { url: undefined, fromCache: false, hash: fileHash, error: e };
+  }
+}
+
+/**
+ * Upload a vault file outside of the create flow (retry queue): shared cache first, then the provider.
+ * Resolves with the cached or uploaded asset so links keep its size and resource type.
+ * Throws when the upload fails so the caller can schedule another attempt.
+ */
+export async function uploadVaultFile(
+  app: any,
+  settings: any,
+  file: TFile,
+  uploaderCtor: any = CloudinaryUploader,
+  encoder?: ImageEncoder
+): Promise<UploadedAsset> {
+  const data: ArrayBuffer = await app.vault.readBinary(file);
+  const fileHash = await computeSha1(new Uint8Array(data));
+  const sharedCache = settings.cacheFilePath ? new CloudinaryCache(app, settings.cacheFilePath) : undefined;
+
+  const entry = await sharedCache?.getEntry(fileHash);
+  if (entry) {
+    if (settings?.debugLogs) console.log('[img_upload] Shared cache hit:', entry.url);
+    return assetFromCacheEntry(entry);
+  }
+
+  if (isOffline()) throw new Error('No network connection');
+  if (!providerCanUpload(settings)) throw new Error('The upload provider is not fully configured');
+
+  const kind = getMediaKind(file.extension, settings) ?? 'image';
+  const uploader = createUploadProvider(settings, uploaderCtor);
+  const prepared = await prepareUpload(file, data, kind, settings, encoder);
+  // Retried uploads no longer know the note they were added to: the naming context only has the file
+  const asset = await uploadWithNaming(
+    settings,
+    { filename: prepared.filename, hash: fileHash },
+    async (naming) => toUploadedAsset(await uploader.upload(prepared.blob, prepared.filename, { kind, ...naming })),
+    sharedCache
+  );
+
+  await sharedCache?.addEntry(fileHash, buildCacheEntry(asset, file.name, cacheResourceType(settings, kind)));
+  return asset;
+}
+
+/**
+ * Blob sent to the provider: images go through the optional resize / re-encode step, other media are sent as is.
+ */
+async function prepareUpload(file: TFile, data: ArrayBuffer, kind: MediaKind, settings: any, encoder?: ImageEncoder): Promise<ProcessedImage> {
+  const blob = new Blob([data], { type: getMimeType(file.extension) });
+  if (kind !== 'image') return { blob, filename: file.name, processed: false, removedMetadata: [] };
+  return processImageForUpload(blob, file.name, settings, encoder);
+}
+
+/**
+ * Rewrite the references to `file` in every markdown note of the vault (not only the active one).
+ * Returns the number of notes that changed.
+ */
+export async function replaceReferencesInVault(app: any, file: TFile, replacement: string | UploadedAsset, settings: any): Promise<number> {
+  let changed = 0;
+  for (const note of app.vault.getMarkdownFiles?.() ?? []) {
+    const content: string = await app.vault.cachedRead(note);
+    // Cheap pre-check before running every regex on every note
+    if (!content.includes(file.name) && !content.includes(file.basename) && !content.includes(encodeURI(file.name))) continue;
+
+    const newContent = replaceReferencesInContent(content, file, replacement, settings, 'queue', note.basename);
+    if (newContent === content) continue;
+
+    if (typeof app.vault.process === 'function') {
+      await app.vault.process(note, (current: string) => replaceReferencesInContent(current, file, replacement, settings, 'queue', note.basename));
+    } else {
+      await app.vault.modify(note, newContent);
+    }
+    changed++;
   }
+  return changed;
+}
+
+// Only Cloudinary has resource types: other providers leave it null in the cache
+function cacheResourceType(settings: any, kind: MediaKind): string | null {
+  return getProviderId(settings) === 'cloudinary' ? getResourceType(kind) : null;
+}
+
+function isOffline(): boolean {
+  return typeof navigator !== 'undefined' && (navigator as any).onLine === false;
 }
 
 async function ensureFolderExists(app: any, folderPath: string) {
@@ -357,7 +473,7 @@ async function findExistingIllustration(app: any, targetHash: string, folderPath
   if (!children || !Array.isArray(children)) return undefined;
 
   for (const child of children) {
-    if (child instanceof TFile && IMAGE_EXTENSIONS.has(child.extension?.toLowerCase?.())) {
+    if (child instanceof TFile && getMediaKind(child.extension, settings)) {
       try {
         const existingData = await app.vault.readBinary(child);
         const existingHash = await computeSha1(new Uint8Array(existingData));
@@ -421,41 +537,86 @@ function getNodeCrypto(): any {
   }
 }
 
-function getMimeFromExt(ext: string): string {
-  switch ((ext || '').toLowerCase()) {
-    case 'jpg':
-    case 'jpeg':
-      return 'image/jpeg';
-    case 'png':
-      return 'image/png';
-    case 'gif':
-      return 'image/gif';
-    case 'webp':
-      return 'image/webp';
-    case 'svg':
-      return 'image/svg+xml';
-    default:
-      return 'application/octet-stream';
-  }
-}
-
 function escapeRegExp(str: string) {
   if (!str) return '';
   return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 }
 
-function replaceImageReference(
+/**
+ * Replace the references to `file` in `notes`: in the editor showing a note when it is open (keeping its undo history
+ * and unsaved edits), in the note file otherwise. An empty `notes` means the active note (polling fallback).
+ */
+async function replaceImageReference(
   app: any,
   file: TFile,
-  replacementUrl: string,
+  replacement: string | UploadedAsset,
   settings: any,
-  notify: (msg: string) => void,
+  notes: string[],
   logPrefix: string
-): boolean {
-  const view = app.workspace.getActiveViewOfType(MarkdownView);
-  if (!view || !view.editor || typeof (view as any).editor.setValue !== 'function') return false;
+): Promise<boolean> {
+  if (!notes.length) {
+    const view = app.workspace.getActiveViewOfType(MarkdownView);
+    return !!view?.editor && replaceInEditor(view.editor, file, replacement, settings, logPrefix, view.file?.basename);
+  }
+
+  let replaced = false;
+  for (const path of notes) {
+    const editor = findOpenEditor(app, path);
+    const note = app.vault.getAbstractFileByPath?.(path);
+    const basename = note?.basename ?? path.replace(/^.*\//, '').replace(/\.md$/, '');
+    if (editor) {
+      replaced = replaceInEditor(editor, file, replacement, settings, logPrefix, basename) || replaced;
+    } else if (note && typeof app.vault.process === 'function') {
+      let changed = false;
+      await app.vault.process(note, (content: string) => {
+        const newContent = replaceReferencesInContent(content, file, replacement, settings, logPrefix, basename);
+        changed = newContent !== content;
+        return newContent;
+      });
+      if (settings?.debugLogs) console.log(`[img_upload] ${logPrefix}: ${changed ? 'replaced reference in' : 'no reference found in'}`, path);
+      replaced = changed || replaced;
+    }
+  }
+  return replaced;
+}
+
+function replaceInEditor(editor: any, file: TFile, replacement: string | UploadedAsset, settings: any, logPrefix: string, note?: string): boolean {
+  if (typeof editor.setValue !== 'function') return false;
+  const content = editor.getValue();
+  const newContent = replaceReferencesInContent(content, file, replacement, settings, logPrefix, note);
 
-  const content = view.editor.getValue();
+  if (newContent !== content) {
+    editor.setValue(newContent);
+    if (settings?.debugLogs) console.log(`[img_upload] ${logPrefix}: replaced reference in note`);
+    return true;
+  }
+
+  if (settings?.debugLogs) console.log(`[img_upload] ${logPrefix}: no reference found in note for`, file.path);
+  return false;
+}
+
+function findOpenEditor(app: any, path: string): any {
+  const leaves: any[] = app.workspace?.getLeavesOfType?.('markdown') ?? [];
+  return leaves.map((leaf) => leaf.view).find((view) => view?.file?.path === path && view.editor)?.editor;
+}
+
+/**
+ * Replace every markdown or wikilink embed of `file` in `content` with the embed of `replacement`:
+ * `![alt](url)` for images and local paths, `<video>` / `<audio>` / a link for the other kinds.
+ * Uploaded images get the default transformation profile and follow the output mode
+ * (`<img srcset>` sized from the upload result when `replacement` is an uploaded asset) or the link template,
+ * where `note` fills {note}.
+ */
+export function replaceReferencesInContent(
+  content: string,
+  file: TFile,
+  replacement: string | UploadedAsset,
+  settings?: any,
+  logPrefix = 'replace',
+  note?: string
+): string {
+  const asset = typeof replacement === 'string' ? undefined : replacement;
+  const replacementUrl = asset ? asset.url : (replacement as string);
   const escPath = escapeRegExp(file.path);
   const escName = escapeRegExp(file.name);
   const escBase = escapeRegExp(file.basename);
@@ -464,6 +625,10 @@ function replaceImageReference(
   const encPath = escapeRegExp(encodeURI(file.path));
   const encName = escapeRegExp(encodeURI(file.name));
 
+  // Uploaded files get the embed of their kind (<video>, <audio>, link...); local copies stay markdown embeds
+  const remote = /^https?:\/\//i.test(replacementUrl);
+  const kind = getMediaKind(file.extension, settings) ?? 'image';
+
   let newContent = content;
 
   // 1. Standard Markdown links: ![alt](path)
@@ -491,19 +656,15 @@ function replaceImageReference(
       // If there's an alt text in wikilink ![[name|alt]], we try to preserve it
       newContent = newContent.replace(regex, (match: string, alt: string) => {
         const altText = alt ? alt.replace(/^\|/, '') : '';
-        return `![${altText}](${replacementUrl})`;
+        if (!remote) return `![${altText}](${replacementUrl})`;
+        if (kind === 'image') return buildImageLink(replacementUrl, settings, { alt: altText, asset, filename: file.name, note });
+        // The default profile is an image transformation: videos, audio and documents keep the uploaded URL
+        return buildEmbed(kind, replacementUrl, altText || (kind === 'document' ? file.name : ''));
       });
     }
   }
 
-  if (newContent !== content) {
-    view.editor.setValue(newContent);
-    if (settings?.debugLogs) console.log(`[img_upload] ${logPrefix}: replaced reference in note`);
-    return true;
-  }
-
-  if (settings?.debugLogs) console.log(`[img_upload] ${logPrefix}: no reference found in note for`, file.path);
-  return false;
+  return newContent;
 }
 
 function sanitizeFolderPath(value: string): string {
@@ -0,0 +1,88 @@
+/**
+ * Small HTTP layer shared by the upload providers.
+ * - Uses XMLHttpRequest when an `onProgress` callback is given, as fetch cannot report upload progress.
+ * - Falls back to fetch otherwise (and in Node, where tests stub `fetch`).
+ * - Both paths honour an `AbortSignal` and reject with `UploadCancelledError` when it fires.
+ */
+export interface HttpRequest {
+  method: string;
+  url: string;
+  headers?: Record<string, string>;
+  body?: BodyInit | Uint8Array | null;
+  onProgress?: (loaded: number, total: number) => void;
+  signal?: AbortSignal;
+}
+
+export interface HttpResponse {
+  ok: boolean;
+  status: number;
+  text(): Promise<string>;
+  json(): Promise<any>;
+}
+
+export class UploadCancelledError extends Error {
+  constructor() {
+    super('Upload cancelled');
+    this.name = 'UploadCancelledError';
+  }
+}
+
+export function isUploadCancelled(e: unknown): boolean {
+  return e instanceof UploadCancelledError || (e as any)?.name === 'UploadCancelledError';
+}
+
+export async function sendRequest(request: HttpRequest): Promise<HttpResponse> {
+  if (request.signal?.aborted) throw new UploadCancelledError();
+
+  if (request.onProgress && typeof XMLHttpRequest !== 'undefined') {
+    return sendWithXhr(request);
+  }
+
+  try {
+    return await fetch(request.url, {
+      method: request.method,
+      headers: request.headers,
+      body: request.body as BodyInit | null | undefined,
+      signal: request.signal,
+    });
+  } catch (e: any) {
+    if (e?.name === 'AbortError') throw new UploadCancelledError();
+    throw e;
+  }
+}
+
+function sendWithXhr(request: HttpRequest): Promise<HttpResponse> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    const onAbort = () => xhr.abort();
+
+    xhr.open(request.method, request.url);
+    for (const [name, value] of Object.entries(request.headers ?? {})) {
+      xhr.setRequestHeader(name, value);
+    }
+
+    // A batch shares one signal between its uploads: every way of settling must drop the listener
+    const settle = (done: () => void) => () => {
+      request.signal?.removeEventListener('abort', onAbort);
+      done();
+    };
+
+    xhr.upload.onprogress = (event: ProgressEvent) => request.onProgress?.(event.loaded, event.lengthComputable ? event.total : 0);
+    xhr.onload = settle(() => {
+      const text = xhr.responseText;
+      resolve({
+        ok: xhr.status >= 200 && xhr.status < 300,
+        status: xhr.status,
+        text: async () => text,
+        json: async () => JSON.parse(text),
+      });
+    });
+    // Same message as fetch so callers detecting network/CORS failures keep working
+    xhr.onerror = settle(() => reject(new TypeError('Failed to fetch')));
+    xhr.ontimeout = xhr.onerror;
+    xhr.onabort = settle(() => reject(new UploadCancelledError()));
+
+    request.signal?.addEventListener('abort', onAbort, { once: true });
+    xhr.send((request.body ?? null) as any);
+  });
+}
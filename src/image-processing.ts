@@ -0,0 +1,107 @@
+import { stripImageMetadata } from './metadata';
+
+/**
+ * Optional processing of images before they are uploaded: strip privacy sensitive metadata, cap the longest edge
+ * and re-encode PNG/JPEG to WebP or JPEG. Cache lookups keep using the hash of the original bytes, computed by the callers.
+ */
+export type ReencodeFormat = 'original' | 'webp' | 'jpeg';
+
+export const DEFAULT_MAX_IMAGE_DIMENSION = 2560;
+export const DEFAULT_REENCODE_QUALITY = 85;
+
+export interface EncodeRequest {
+  maxDimension?: number; // longest edge in px, images are never upscaled
+  mime: string; // output type
+  quality: number; // 1-100, ignored for PNG
+}
+
+/**
+ * Decode, resize and encode an image. Injected in tests; the default one draws on a canvas.
+ */
+export type ImageEncoder = (blob: Blob, request: EncodeRequest) => Promise<Blob>;
+
+export interface ProcessedImage {
+  blob: Blob;
+  filename: string;
+  processed: boolean; // false when the image was not re-encoded
+  removedMetadata: string[]; // see `stripImageMetadata`
+}
+
+const PROCESSABLE_TYPES = new Set(['image/png', 'image/jpeg']);
+const EXTENSIONS: Record<string, string> = { 'image/webp': 'webp', 'image/jpeg': 'jpg', 'image/png': 'png' };
+
+/**
+ * Apply the "Strip photo metadata" then the "Resize and re-encode images" settings to `blob`. The image is not re-encoded
+ * when processing is off, the type is not PNG/JPEG (GIF animations, SVG...), encoding fails, or the result would not be smaller.
+ */
+export async function processImageForUpload(blob: Blob, filename: string, settings: any, encoder: ImageEncoder = canvasEncoder): Promise<ProcessedImage> {
+  const type = blob.type || mimeFromFilename(filename);
+  if (!PROCESSABLE_TYPES.has(type)) return { blob, filename, processed: false, removedMetadata: [] };
+
+  let removedMetadata: string[] = [];
+  if (settings?.stripImageMetadata) {
+    const stripped = stripImageMetadata(new Uint8Array(await blob.arrayBuffer()), type, settings.keepImageOrientation !== false);
+    removedMetadata = stripped.removed;
+    if (removedMetadata.length) blob = new Blob([stripped.bytes], { type });
+    if (settings.debugLogs && removedMetadata.length) console.log('[img_upload] removed metadata', { filename, removedMetadata });
+  }
+
+  const original: ProcessedImage = { blob, filename, processed: false, removedMetadata };
+  if (!settings?.processImagesBeforeUpload) return original;
+
+  const format: ReencodeFormat = settings.reencodeFormat || 'original';
+  const mime = format === 'webp' ? 'image/webp' : format === 'jpeg' ? 'image/jpeg' : type;
+  const maxDimension = Number(settings.maxImageDimension) > 0 ? Number(settings.maxImageDimension) : undefined;
+  const quality = Math.min(100, Math.max(1, Number(settings.reencodeQuality) || DEFAULT_REENCODE_QUALITY));
+
+  let encoded: Blob;
+  try {
+    encoded = await encoder(blob, { maxDimension, mime, quality });
+  } catch (e) {
+    if (settings?.debugLogs) console.error('[img_upload] image processing failed, uploading the original', e);
+    return original;
+  }
+
+  if (encoded.size >= blob.size) {
+    if (settings?.debugLogs) console.log('[img_upload] processed image is not smaller, uploading the original', { filename, before: blob.size, after: encoded.size });
+    return original;
+  }
+  if (settings?.debugLogs) console.log('[img_upload] processed image', { filename, before: blob.size, after: encoded.size, mime });
+  const ext = EXTENSIONS[encoded.type || mime] ?? EXTENSIONS[mime];
+  return { blob: encoded, filename: filename.replace(/(\.[^.]+)?$/, `.${ext}`), processed: true, removedMetadata };
+}
+
+/**
+ * Default encoder: decode with `createImageBitmap`, draw scaled on a canvas, export with `toBlob`.
+ * JPEG has no transparency, so transparent pixels are painted white instead of black.
+ */
+export async function canvasEncoder(blob: Blob, request: EncodeRequest): Promise<Blob> {
+  if (typeof createImageBitmap !== 'function' || typeof document === 'undefined') throw new Error('Image processing is not available');
+  const bitmap = await createImageBitmap(blob);
+  const longest = Math.max(bitmap.width, bitmap.height);
+  const scale = request.maxDimension && longest > request.maxDimension ? request.maxDimension / longest : 1;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+  canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas 2D context not available');
+  if (request.mime === 'image/jpeg') {
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((result) => (result ? resolve(result) : reject(new Error('Image encoding failed'))), request.mime, request.quality / 100);
+  });
+}
+
+function mimeFromFilename(filename: string): string {
+  const ext = filename.split('.').pop()?.toLowerCase();
+  if (ext === 'png') return 'image/png';
+  if (ext === 'jpg' || ext === 'jpeg') return 'image/jpeg';
+  return '';
+}
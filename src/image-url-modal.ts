@@ -0,0 +1,56 @@
+import { App, Modal } from 'obsidian';
+
+/**
+ * Ask for the URL of a remote image to copy to Cloudinary.
+ */
+export class ImageUrlModal extends Modal {
+  private resolve?: (url: string | undefined) => void;
+
+  constructor(app: App) {
+    super(app);
+  }
+
+  /** Open the modal and resolve with the entered URL, or undefined when dismissed. */
+  prompt(): Promise<string | undefined> {
+    return new Promise((resolve) => {
+      this.resolve = resolve;
+      this.open();
+    });
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.createEl('h3', { text: 'Upload image from URL' });
+    contentEl.createEl('p', { text: 'Cloudinary downloads the image itself and the link to its copy is inserted at the cursor.', cls: 'setting-item-description' });
+
+    const input = contentEl.createEl('input', { type: 'url', placeholder: 'https://example.com/picture.png' });
+    input.style.width = '100%';
+    const submit = () => {
+      const url = input.value.trim();
+      if (/^https?:\/\//i.test(url)) this.finish(url);
+    };
+    input.addEventListener('keydown', (evt: KeyboardEvent) => {
+      if (evt.key === 'Enter') submit();
+    });
+
+    const row = contentEl.createDiv({ cls: 'setting-item' });
+    const uploadBtn = row.createEl('button', { text: 'Upload', cls: 'mod-cta' });
+    uploadBtn.addEventListener('click', submit);
+    const cancelBtn = row.createEl('button', { text: 'Cancel' });
+    cancelBtn.addEventListener('click', () => this.finish(undefined));
+    input.focus();
+  }
+
+  onClose() {
+    this.contentEl.empty();
+    // Closing with Escape or the X button cancels
+    this.resolve?.(undefined);
+    this.resolve = undefined;
+  }
+
+  private finish(url: string | undefined) {
+    this.resolve?.(url);
+    this.resolve = undefined;
+    this.close();
+  }
+}
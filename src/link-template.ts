@@ -0,0 +1,61 @@
+/**
+ * Markup written for an uploaded image in markdown output mode. Placeholders: {url}, {alt}, {filename},
+ * {basename}, {width}, {height}, {date} and {note}; unknown ones are kept as typed.
+ */
+export const DEFAULT_LINK_TEMPLATE = '![{alt}]({url})';
+
+export const LINK_TEMPLATE_PLACEHOLDERS = ['url', 'alt', 'filename', 'basename', 'width', 'height', 'date', 'note'] as const;
+
+export type LinkTemplateValues = Partial<Record<(typeof LINK_TEMPLATE_PLACEHOLDERS)[number], string | number | null>>;
+
+/**
+ * Fill `template` with `values`; missing values become empty strings.
+ */
+export function renderLinkTemplate(template: string | undefined, values: LinkTemplateValues): string {
+  return (template || DEFAULT_LINK_TEMPLATE).replace(/\{(\w+)\}/g, (match, name: string) => {
+    if (!(LINK_TEMPLATE_PLACEHOLDERS as readonly string[]).includes(name)) return match;
+    const value = values[name as keyof LinkTemplateValues];
+    return value === undefined || value === null ? '' : String(value);
+  });
+}
+
+/**
+ * Values derived from the link itself: file name from the URL when not given, and today's date.
+ */
+export function buildLinkTemplateValues(url: string, values: LinkTemplateValues = {}): LinkTemplateValues {
+  const filename = values.filename || fileNameOf(url);
+  return {
+    ...values,
+    url,
+    filename,
+    basename: values.basename ?? String(filename).replace(/\.[^.]+$/, ''),
+    date: values.date ?? formatDate(new Date()),
+  };
+}
+
+function formatDate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function fileNameOf(url: string): string {
+  const name = url.split(/[?#]/)[0].split('/').pop() ?? '';
+  try {
+    return decodeURIComponent(name);
+  } catch (e) {
+    return name;
+  }
+}
+
+export type AltTextPrompt = (label: string, defaultAlt: string) => Promise<string | undefined>;
+
+/**
+ * Alt texts of the images being inserted: asked one image after the other when "Ask for alt text" is on
+ * (a dismissed prompt keeps the default), the defaults otherwise.
+ */
+export async function askAltTexts(settings: any, images: Array<{ label: string; alt: string }>, prompt?: AltTextPrompt): Promise<string[]> {
+  if (!settings?.promptAltText || !prompt) return images.map((image) => image.alt);
+  const alts: string[] = [];
+  for (const image of images) alts.push((await prompt(image.label, image.alt)) ?? image.alt);
+  return alts;
+}
@@ -2,50 +2,186 @@ import { Plugin, PluginSettingTab, App, Setting, Notice, MarkdownView, TFile, Mo
 import { BUILD_INFO } from './generated-build-info';
 import CloudinarySettingTab from './settings';
 import { CloudinaryUploader } from './cloudinary';
-import { pasteClipboardImage } from './paste';
+import { DEFAULT_UPLOAD_CONCURRENCY, formatBatchSummary, ImageBlob, readClipboardImages, uploadImageBlobs } from './paste';
+import { finishUploadPlaceholder, insertUploadPlaceholder, replaceUploadPlaceholder } from './placeholder';
 import { processFileCreate } from './file-handler';
+import { DEFAULT_MAX_IMAGE_DIMENSION, DEFAULT_REENCODE_QUALITY, ReencodeFormat } from './image-processing';
 import { CloudinaryCache } from './cache';
+import { createCloudinaryUploader, getProviderId, providerCanUpload, ProviderId } from './provider';
+import { isUploadCancelled } from './http';
+import { UploadProgressNotice } from './progress';
+import { QueuedUpload, UploadQueue } from './queue';
+import { UploadQueueModal } from './queue-modal';
+import { DEFAULT_MEDIA_EXTENSIONS } from './media';
+import { deleteAssetAtCursor } from './delete-asset';
+import { DeleteAssetModal } from './delete-asset-modal';
+import { buildResourceEmbed, canBrowseMediaLibrary } from './media-library';
+import { MediaLibraryModal } from './media-library-modal';
+import { DEFAULT_TRANSFORMATION_PROFILES, parseTransformationProfiles } from './transformations';
+import { buildImageLink, DEFAULT_RESPONSIVE_BREAKPOINTS, DEFAULT_RESPONSIVE_SIZES, ImageOutputMode } from './responsive';
+import { TransformationProfileModal } from './transformation-profile-modal';
+import { editTransformationAtCursor } from './edit-transformation';
+import { TransformationEditorModal } from './transformation-editor-modal';
+import { ImageUrlModal } from './image-url-modal';
+import { AltTextModal } from './alt-text-modal';
+import { askAltTexts, DEFAULT_LINK_TEMPLATE } from './link-template';
+import { DEFAULT_REFERENCE_TIMEOUT_SECONDS } from './references';
+import { uploadImageFromUrl } from './remote-images';
+import { EditorEventOptions, handleEditorDrop, handleEditorPaste } from './editor-events';
 
 interface CloudinaryPluginSettings {
+  provider: ProviderId;
   cloudName: string;
   apiKey: string;
   apiSecret?: string;
   uploadPreset?: string;
   autoUploadOnFileAdd?: boolean;
+  referenceTimeoutSeconds?: number;
   localCopyEnabled?: boolean;
   localCopyFolder?: string;
   maxAutoUploadSizeMB?: number;
+  uploadLargeFiles?: boolean;
   allowStoreApiSecret?: boolean;
+  signatureEndpoint?: string;
+  showUploadProgress?: boolean;
+  handleEditorPasteDrop?: boolean;
+  uploadConcurrency?: number;
+  processImagesBeforeUpload?: boolean;
+  maxImageDimension?: number;
+  reencodeFormat?: ReencodeFormat;
+  reencodeQuality?: number;
+  stripImageMetadata?: boolean;
+  keepImageOrientation?: boolean;
+  rehostPastedImages?: boolean;
+  queueFailedUploads?: boolean;
+  uploadQueue?: QueuedUpload[];
+  cloudinaryFolder?: string;
+  folderTemplate?: string;
+  publicIdTemplate?: string;
+  cloudinaryTags?: string;
+  cloudinaryAutoResourceType?: boolean;
+  transformationProfiles?: string;
+  defaultTransformationProfile?: string;
+  imageOutputMode?: ImageOutputMode;
+  responsiveBreakpoints?: string;
+  responsiveSizes?: string;
+  linkTemplate?: string;
+  promptAltText?: boolean;
+  imageExtensions?: string;
+  videoExtensions?: string;
+  audioExtensions?: string;
+  documentExtensions?: string;
   debugLogs?: boolean;
   cacheFilePath?: string;
   deleteSourceAfterUpload?: boolean;
+  s3Endpoint?: string;
+  s3Region?: string;
+  s3Bucket?: string;
+  s3AccessKeyId?: string;
+  s3SecretAccessKey?: string;
+  s3Prefix?: string;
+  s3PublicBaseUrl?: string;
+  s3ForcePathStyle?: boolean;
+  webdavUrl?: string;
+  webdavUsername?: string;
+  webdavPassword?: string;
+  webdavFolder?: string;
+  webdavPublicUrlPrefix?: string;
+  customUploadUrl?: string;
+  customFileField?: string;
+  customExtraFields?: string;
+  customHeaders?: string;
+  customResponseUrlPath?: string;
 }
 
 export { processFileCreate } from './file-handler';
 
 const DEFAULT_SETTINGS: CloudinaryPluginSettings = {
+  provider: 'cloudinary',
   cloudName: '',
   apiKey: '',
   apiSecret: '',
   uploadPreset: '',
   autoUploadOnFileAdd: false,
+  referenceTimeoutSeconds: DEFAULT_REFERENCE_TIMEOUT_SECONDS,
   localCopyEnabled: false,
   localCopyFolder: '',
   maxAutoUploadSizeMB: 10,
+  uploadLargeFiles: false,
+  signatureEndpoint: '',
+  showUploadProgress: true,
+  handleEditorPasteDrop: false,
+  uploadConcurrency: DEFAULT_UPLOAD_CONCURRENCY,
+  processImagesBeforeUpload: false,
+  maxImageDimension: DEFAULT_MAX_IMAGE_DIMENSION,
+  reencodeFormat: 'original',
+  reencodeQuality: DEFAULT_REENCODE_QUALITY,
+  stripImageMetadata: false,
+  keepImageOrientation: true,
+  rehostPastedImages: false,
+  queueFailedUploads: true,
+  uploadQueue: [],
+  cloudinaryFolder: '',
+  folderTemplate: '',
+  publicIdTemplate: '',
+  cloudinaryTags: '',
+  cloudinaryAutoResourceType: false,
+  transformationProfiles: DEFAULT_TRANSFORMATION_PROFILES,
+  defaultTransformationProfile: '',
+  imageOutputMode: 'markdown',
+  responsiveBreakpoints: DEFAULT_RESPONSIVE_BREAKPOINTS,
+  responsiveSizes: DEFAULT_RESPONSIVE_SIZES,
+  linkTemplate: DEFAULT_LINK_TEMPLATE,
+  promptAltText: false,
+  imageExtensions: DEFAULT_MEDIA_EXTENSIONS.image,
+  videoExtensions: DEFAULT_MEDIA_EXTENSIONS.video,
+  audioExtensions: DEFAULT_MEDIA_EXTENSIONS.audio,
+  documentExtensions: DEFAULT_MEDIA_EXTENSIONS.document,
   debugLogs: false,
   cacheFilePath: '_Helpers/cloudinary_cache.json',
   deleteSourceAfterUpload: false,
+  s3Endpoint: '',
+  s3Region: 'us-east-1',
+  s3Bucket: '',
+  s3AccessKeyId: '',
+  s3SecretAccessKey: '',
+  s3Prefix: '',
+  s3PublicBaseUrl: '',
+  s3ForcePathStyle: true,
+  webdavUrl: '',
+  webdavUsername: '',
+  webdavPassword: '',
+  webdavFolder: 'obsidian',
+  webdavPublicUrlPrefix: '',
+  customUploadUrl: '',
+  customFileField: 'file',
+  customExtraFields: '',
+  customHeaders: '',
+  customResponseUrlPath: 'url',
+};
+
+const MISSING_PROVIDER_CONFIG_NOTICES: Record<ProviderId, string> = {
+  cloudinary: '❌ Configure Cloudinary credentials first! (Cloud name + upload preset, API key & secret or signing endpoint)',
+  s3: '❌ Configure S3 first! (Endpoint, bucket, access key and secret key)',
+  webdav: '❌ Configure WebDAV first! (Server URL)',
+  custom: '❌ Configure the custom endpoint first! (Upload URL)',
 };
 
 export default class CloudinaryPlugin extends Plugin {
   settings: CloudinaryPluginSettings = DEFAULT_SETTINGS;
   private uploader?: CloudinaryUploader;
   private buildInfo = { version: '1.0.0', buildNumber: 0 };
+  uploadQueue!: UploadQueue;
 
   async onload() {
     await this.loadSettings();
     await this.loadBuildInfo();
 
+    this.uploadQueue = new UploadQueue(this.app, this.settings, this.saveSettings.bind(this), {
+      uploaderCtor: CloudinaryUploader,
+      notify: (m: string) => new Notice(m),
+    });
+
     this.addCommand({ id: 'cloudinary-paste-image', name: 'Paste image to Cloudinary', callback: () => this.pasteImage() });
 
     this.addCommand({
@@ -55,6 +191,27 @@ export default class CloudinaryPlugin extends Plugin {
       callback: () => this.pasteImage(),
     });
 
+    this.addCommand({
+      id: 'cloudinary-paste-image-responsive',
+      name: 'Paste image to Cloudinary as responsive image (srcset)',
+      callback: () => this.pasteImage(undefined, 'responsive'),
+    });
+
+    this.addCommand({
+      id: 'cloudinary-paste-image-markdown',
+      name: 'Paste image to Cloudinary as markdown image',
+      callback: () => this.pasteImage(undefined, 'markdown'),
+    });
+
+    this.addCommand({
+      id: 'cloudinary-paste-image-with-profile',
+      name: 'Paste image to Cloudinary with transformation profile',
+      callback: async () => {
+        const profile = await new TransformationProfileModal(this.app, parseTransformationProfiles(this.settings.transformationProfiles)).prompt();
+        if (profile) await this.pasteImage(profile.transformation);
+      },
+    });
+
     this.addSettingTab(new CloudinarySettingTab(this.app, this));
 
     this.addCommand({
@@ -91,34 +248,176 @@ export default class CloudinaryPlugin extends Plugin {
       },
     });
 
+    this.addCommand({
+      id: 'img-upload-manage-queue',
+      name: 'Show upload queue (retry or drop failed uploads)',
+      callback: () => new UploadQueueModal(this.app, this.uploadQueue).open(),
+    });
+
+    this.addCommand({
+      id: 'cloudinary-delete-asset-at-cursor',
+      name: 'Delete Cloudinary asset under cursor',
+      editorCallback: async (editor: any) => {
+        await deleteAssetAtCursor(this.app, this.settings, editor, {
+          confirm: (request) => new DeleteAssetModal(this.app, request).prompt(),
+          notify: (m: string) => new Notice(m),
+        });
+      },
+    });
+
+    this.addCommand({
+      id: 'cloudinary-edit-transformation-at-cursor',
+      name: 'Edit Cloudinary transformation under cursor',
+      editorCallback: async (editor: any) => {
+        await editTransformationAtCursor(editor, {
+          edit: (request) => new TransformationEditorModal(this.app, request).prompt(),
+          notify: (m: string) => new Notice(m),
+        });
+      },
+    });
+
+    this.addCommand({
+      id: 'cloudinary-browse-media-library',
+      name: 'Browse Cloudinary media library and insert asset',
+      editorCallback: (editor: any) => {
+        if (!canBrowseMediaLibrary(this.settings)) {
+          new Notice('❌ Browsing the media library requires the API key and secret (enable storing the API secret)');
+          return;
+        }
+        const uploader = createCloudinaryUploader(this.settings);
+        new MediaLibraryModal(this.app, uploader, this.settings, (resource) => {
+          editor.replaceSelection(buildResourceEmbed(resource, this.settings));
+        }).open();
+      },
+    });
+
+    this.addCommand({
+      id: 'cloudinary-upload-image-from-url',
+      name: 'Upload image from URL to Cloudinary',
+      editorCallback: async (editor: any) => {
+        if (!providerCanUpload({ ...this.settings, provider: 'cloudinary' })) {
+          new Notice(MISSING_PROVIDER_CONFIG_NOTICES.cloudinary);
+          return;
+        }
+        const remoteUrl = await new ImageUrlModal(this.app).prompt();
+        if (!remoteUrl) return;
+        const label = remoteUrl.split(/[?#]/)[0].split('/').pop() || 'remote image';
+        const placeholder = insertUploadPlaceholder(this.app, editor, label);
+        new Notice('⏳ Uploading...');
+        try {
+          const cache = this.settings.cacheFilePath ? new CloudinaryCache(this.app, this.settings.cacheFilePath) : undefined;
+          const [{ url, asset, filename }, [alt]] = await Promise.all([
+            uploadImageFromUrl(this.settings, remoteUrl, createCloudinaryUploader(this.settings), cache, {}, this.app.workspace.getActiveFile()),
+            askAltTexts(this.settings, [{ label, alt: label.replace(/\.[^.]+$/, '') }], (name, alt) => this.askAltText(name, alt)),
+          ]);
+          const link = buildImageLink(url, this.settings, { alt, asset, filename, note: this.app.workspace.getActiveFile()?.basename });
+          await replaceUploadPlaceholder(this.app, placeholder, link);
+          new Notice('✅ Image uploaded!');
+        } catch (err) {
+          await finishUploadPlaceholder(this.app, placeholder, label, [], err);
+          new Notice(`❌ Error: ${err instanceof Error ? err.message : String(err)}`);
+        }
+      },
+    });
+
     this.registerEvent(
       this.app.vault.on('create', (file) => {
         (this as any).handleFileCreate?.(file);
       })
     );
+
+    // Paste and drop images straight from the event data (no attachment is written to the vault),
+    // and re-host the remote images of HTML pasted from web pages
+    const editorEventOptions: EditorEventOptions = {
+      notify: (msg: string) => new Notice(msg),
+      startProgress: (label: string) => this.startUploadProgress(label),
+      promptAlt: (label: string, alt: string) => this.askAltText(label, alt),
+    };
+    this.registerEvent(
+      this.app.workspace.on('editor-paste', (evt, editor) => {
+        void handleEditorPaste(evt, editor, this.app, this.settings, editorEventOptions);
+      })
+    );
+    this.registerEvent(
+      this.app.workspace.on('editor-drop', (evt, editor) => {
+        void handleEditorDrop(evt, editor, this.app, this.settings, editorEventOptions);
+      })
+    );
+
+    // Retry queued uploads once the vault is loaded, when the network comes back and on a timer
+    this.app.workspace.onLayoutReady(() => this.uploadQueue.processDue(true));
+    this.registerDomEvent(window, 'online', () => this.uploadQueue.processDue(true));
+    this.registerInterval(window.setInterval(() => this.uploadQueue.processDue(), 30 * 1000));
   }
 
-  async pasteImage() {
-    if (!this.settings.cloudName || (!this.settings.apiKey && !this.settings.uploadPreset)) {
-      new Notice('❌ Configure Cloudinary credentials first! (Cloud name + API key or upload preset)');
+  /**
+   * Upload the clipboard image and insert it at the cursor. `transformation` overrides the default profile
+   * for this link (empty string: original URL) and `mode` the output mode; the shared cache always keeps the original URL.
+   */
+  async pasteImage(transformation?: string, mode?: ImageOutputMode) {
+    if (!providerCanUpload(this.settings)) {
+      new Notice(MISSING_PROVIDER_CONFIG_NOTICES[getProviderId(this.settings)]);
+      return;
+    }
+    let images: ImageBlob[];
+    try {
+      images = await readClipboardImages(this.settings, (navigator as any).clipboard);
+    } catch (err) {
+      new Notice(`❌ Error: ${err instanceof Error ? err.message : String(err)}`);
       return;
     }
+
+    // The links replace a placeholder, so typing, other uploads or switching notes meanwhile are fine
+    const label = images.length > 1 ? `${images.length} images` : images[0].filename;
+    const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+    const placeholder = view?.editor ? insertUploadPlaceholder(this.app, view.editor, label, view.file) : undefined;
+    const progress = this.startUploadProgress(label);
     try {
       if (this.settings.debugLogs) console.log('[img_upload] pasteImage: starting paste upload', { settings: this.settings });
-      new Notice('⏳ Uploading...');
+      if (!progress) new Notice('⏳ Uploading...');
       const cache = this.settings.cacheFilePath ? new CloudinaryCache(this.app, this.settings.cacheFilePath) : undefined;
-      const { url } = await pasteClipboardImage(this.settings, undefined, (navigator as any).clipboard, cache);
-      if (this.settings.debugLogs) console.log('[img_upload] pasteImage: upload result', url);
-      const view = this.app.workspace.getActiveViewOfType(MarkdownView);
-      if (view && (view as any).editor) (view as any).editor.replaceSelection(`![image](${url})`);
-      else new Notice(`✅ Image uploaded: ${url}`);
-      new Notice('✅ Image uploaded!');
+      // Alt texts are asked while the images upload
+      const [result, alts] = await Promise.all([
+        uploadImageBlobs(this.settings, images, undefined, cache, {
+          onProgress: progress ? (loaded: number, total: number) => progress.onProgress(loaded, total) : undefined,
+          signal: progress?.signal,
+          note: view?.file,
+        }),
+        askAltTexts(this.settings, images.map((image) => ({ label: image.filename, alt: 'image' })), (name, alt) => this.askAltText(name, alt)),
+      ]);
+      if (this.settings.debugLogs) console.log('[img_upload] pasteImage: upload result', result);
+      // One image per line, in clipboard order
+      const note = view?.file?.basename;
+      const links = result.items.flatMap((item, index) =>
+        item.url ? [buildImageLink(item.url, this.settings, { alt: alts[index], asset: item.asset, filename: item.filename, mode, transformation, note })] : []
+      );
+      const error = result.items.find((item) => item.error && !isUploadCancelled(item.error))?.error;
+      if (placeholder) await finishUploadPlaceholder(this.app, placeholder, label, links, error);
+      else if (links.length) new Notice(`✅ Image uploaded: ${result.items.map((item) => item.url).filter(Boolean).join(' ')}`);
+      new Notice(formatBatchSummary(result));
     } catch (err) {
-      const message = err instanceof Error ? err.message : String(err);
-      new Notice(`❌ Error: ${message}`);
+      if (placeholder) await finishUploadPlaceholder(this.app, placeholder, label, [], err);
+      new Notice(`❌ Error: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      progress?.finish();
     }
   }
 
+  /**
+   * Alt text prompt of pasted and dropped images (see "Ask for alt text").
+   */
+  askAltText(label: string, defaultAlt: string): Promise<string | undefined> {
+    return new AltTextModal(this.app, label, defaultAlt).prompt();
+  }
+
+  /**
+   * Show a persistent progress notice with a Cancel button, unless disabled in settings.
+   */
+  startUploadProgress(label: string): UploadProgressNotice | undefined {
+    if (this.settings.showUploadProgress === false) return undefined;
+    return new UploadProgressNotice(label);
+  }
+
   private static _triedAutoCreatePreset = false;
   private static _shownAutoCreatePresetWarning = false;
   static resetAutoCreatePresetState() {
@@ -141,7 +440,16 @@ export default class CloudinaryPlugin extends Plugin {
         if (this.settings.debugLogs) console.log('[img_upload] notice:', m);
         new Notice(m);
       };
-      await processFileCreate(this.app, this.settings, file, CloudinaryUploader, { notify: notifyFn, saveSettings: this.saveSettings.bind(this) });
+      await processFileCreate(this.app, this.settings, file, CloudinaryUploader, {
+        notify: notifyFn,
+        saveSettings: this.saveSettings.bind(this),
+        startProgress: (label: string) => this.startUploadProgress(label),
+        onUploadFailed: async (failedFile: TFile, error: unknown) => {
+          if (this.settings.queueFailedUploads === false) return;
+          await this.uploadQueue.enqueue(failedFile, error);
+          notifyFn(`📥 ${failedFile.name} queued: the upload will be retried automatically`);
+        },
+      });
     } catch (err) {
       const msg = err instanceof Error ? err.message : String(err);
       new Notice(`❌ Auto-upload error: ${msg}`);
@@ -151,6 +459,7 @@ export default class CloudinaryPlugin extends Plugin {
 
   async loadSettings() {
     this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+    if (!Array.isArray(this.settings.uploadQueue)) this.settings.uploadQueue = [];
   }
   async saveSettings() {
     await this.saveData(this.settings);
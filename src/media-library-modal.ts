@@ -0,0 +1,112 @@
+import { App, Modal } from 'obsidian';
+import type { CloudinaryResource, CloudinaryUploader, ResourceListQuery } from './cloudinary';
+import { buildThumbnailUrl } from './media-library';
+
+/**
+ * Browses the Cloudinary media library page by page, filtered by resource type, folder, tag or public_id prefix.
+ * Clicking a resource calls `onChoose` and closes the modal.
+ */
+export class MediaLibraryModal extends Modal {
+  private readonly uploader: CloudinaryUploader;
+  private readonly settings: any;
+  private readonly onChoose: (resource: CloudinaryResource) => void;
+  private query: ResourceListQuery = { resource_type: 'image' };
+  private resources: CloudinaryResource[] = [];
+  private nextCursor?: string;
+  private loading = false;
+  private error?: string;
+
+  constructor(app: App, uploader: CloudinaryUploader, settings: any, onChoose: (resource: CloudinaryResource) => void) {
+    super(app);
+    this.uploader = uploader;
+    this.settings = settings;
+    this.onChoose = onChoose;
+    this.query.folder = settings.cloudinaryFolder || undefined;
+  }
+
+  onOpen() {
+    void this.search();
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+
+  private async search() {
+    this.resources = [];
+    this.nextCursor = undefined;
+    await this.loadPage();
+  }
+
+  private async loadPage() {
+    this.loading = true;
+    this.error = undefined;
+    this.render();
+    try {
+      const page = await this.uploader.listResources({ ...this.query, next_cursor: this.nextCursor });
+      this.resources = this.resources.concat(page.resources);
+      this.nextCursor = page.next_cursor;
+    } catch (e: any) {
+      if (this.settings?.debugLogs) console.error('[img_upload] media library listing failed', e);
+      this.error = e?.message || String(e);
+    }
+    this.loading = false;
+    this.render();
+  }
+
+  private render() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.createEl('h3', { text: 'Cloudinary media library' });
+
+    const filters = contentEl.createDiv({ cls: 'setting-item' });
+    const typeSelect = filters.createEl('select');
+    for (const type of ['image', 'video', 'raw']) {
+      typeSelect.createEl('option', { text: type, value: type });
+    }
+    typeSelect.value = this.query.resource_type ?? 'image';
+    const folderInput = filters.createEl('input', { type: 'text', placeholder: 'Folder', value: this.query.folder ?? '' });
+    const tagInput = filters.createEl('input', { type: 'text', placeholder: 'Tag', value: this.query.tag ?? '' });
+    const prefixInput = filters.createEl('input', { type: 'text', placeholder: 'Public ID prefix', value: this.query.prefix ?? '' });
+    const searchBtn = filters.createEl('button', { text: 'Search' });
+    searchBtn.addEventListener('click', () => {
+      this.query = {
+        resource_type: typeSelect.value as ResourceListQuery['resource_type'],
+        folder: folderInput.value.trim() || undefined,
+        tag: tagInput.value.trim() || undefined,
+        prefix: prefixInput.value.trim() || undefined,
+      };
+      void this.search();
+    });
+
+    if (this.error) contentEl.createEl('p', { text: `❌ ${this.error}` });
+    if (!this.loading && !this.error && !this.resources.length) contentEl.createEl('p', { text: 'No resources found.' });
+
+    const grid = contentEl.createDiv();
+    grid.style.display = 'grid';
+    grid.style.gridTemplateColumns = 'repeat(auto-fill, minmax(120px, 1fr))';
+    grid.style.gap = '8px';
+    for (const resource of this.resources) {
+      const tile = grid.createDiv({ cls: 'clickable-icon' });
+      tile.style.flexDirection = 'column';
+      tile.setAttr('title', resource.public_id);
+      const thumbnail = buildThumbnailUrl(resource, this.settings.cloudName, this.settings);
+      if (thumbnail) {
+        const img = tile.createEl('img', { attr: { src: thumbnail, alt: resource.public_id, loading: 'lazy' } });
+        img.style.width = '100%';
+      }
+      tile.createEl('small', { text: resource.public_id.split('/').pop() ?? resource.public_id });
+      tile.addEventListener('click', () => {
+        this.onChoose(resource);
+        this.close();
+      });
+    }
+
+    if (this.loading) {
+      contentEl.createEl('p', { text: '⏳ Loading…' });
+    } else if (this.nextCursor) {
+      const moreBtn = contentEl.createEl('button', { text: 'Load more' });
+      moreBtn.addEventListener('click', () => void this.loadPage());
+    }
+  }
+}
@@ -0,0 +1,53 @@
+import type { CloudinaryResource } from './cloudinary';
+import { buildCloudinaryUrl } from './cloudinary-url';
+import { buildEmbed, getMediaKind, MediaKind } from './media';
+import { buildImageLink } from './responsive';
+
+// Square thumbnails cropped on the subject
+const THUMBNAIL_TRANSFORMATION = 'c_fill,g_auto,w_160,h_160';
+
+/**
+ * The Admin API authenticates with the key and secret; a signing endpoint cannot sign these calls.
+ */
+export function canBrowseMediaLibrary(settings: any): boolean {
+  return !!(settings.allowStoreApiSecret && settings.apiKey && settings.apiSecret);
+}
+
+/**
+ * Kind of a listed resource: Cloudinary stores audio as `video` resources and documents as `raw`.
+ */
+export function getResourceKind(resource: CloudinaryResource, settings?: any): MediaKind {
+  if (resource.resource_type === 'raw') return 'document';
+  if (resource.resource_type === 'video') return getMediaKind(resource.format, settings) === 'audio' ? 'audio' : 'video';
+  return 'image';
+}
+
+/**
+ * Delivery URL of a small preview, or undefined for resources Cloudinary cannot render as an image (documents, audio).
+ */
+export function buildThumbnailUrl(resource: CloudinaryResource, cloudName: string, settings?: any): string | undefined {
+  const kind = getResourceKind(resource, settings);
+  if (kind !== 'image' && kind !== 'video') return undefined;
+  return buildCloudinaryUrl({
+    cloud_name: cloudName,
+    resource_type: resource.resource_type,
+    type: resource.type || 'upload',
+    // `so_0` takes the first frame of videos
+    transformation: kind === 'video' ? `${THUMBNAIL_TRANSFORMATION},so_0` : THUMBNAIL_TRANSFORMATION,
+    version: resource.version ?? null,
+    public_id: resource.public_id,
+    // Video previews are extracted frames; animated or vector images are flattened too
+    format: kind === 'video' || resource.format === 'gif' || resource.format === 'svg' ? 'jpg' : resource.format || null,
+  });
+}
+
+/**
+ * Embed inserted in the note for a chosen resource, with the last public_id segment as alt text.
+ * Images follow the output mode and default transformation profile, like uploads.
+ */
+export function buildResourceEmbed(resource: CloudinaryResource, settings?: any): string {
+  const alt = resource.public_id.split('/').pop() ?? '';
+  const kind = getResourceKind(resource, settings);
+  if (kind === 'image') return buildImageLink(resource.secure_url, settings, { alt, asset: resource });
+  return buildEmbed(kind, resource.secure_url, alt);
+}
@@ -0,0 +1,96 @@
+/**
+ * What kind of file is being uploaded, decided from its extension with the lists configured in settings.
+ * The kind picks the Cloudinary resource type and the embed inserted in the note.
+ */
+export type MediaKind = 'image' | 'video' | 'audio' | 'document';
+
+export type CloudinaryResourceType = 'image' | 'video' | 'raw' | 'auto';
+
+export const MEDIA_KINDS: MediaKind[] = ['image', 'video', 'audio', 'document'];
+
+export const DEFAULT_MEDIA_EXTENSIONS: Record<MediaKind, string> = {
+  image: 'png, jpg, jpeg, gif, webp, svg',
+  video: 'mp4, webm, mov',
+  audio: 'mp3, wav, ogg, m4a',
+  document: 'pdf',
+};
+
+// Settings key holding the comma-separated extension list of each kind
+export const MEDIA_EXTENSION_SETTINGS: Record<MediaKind, string> = {
+  image: 'imageExtensions',
+  video: 'videoExtensions',
+  audio: 'audioExtensions',
+  document: 'documentExtensions',
+};
+
+// Cloudinary stores audio files as `video` resources; documents are kept byte for byte as `raw`
+const RESOURCE_TYPES: Record<MediaKind, CloudinaryResourceType> = {
+  image: 'image',
+  video: 'video',
+  audio: 'video',
+  document: 'raw',
+};
+
+const MIME_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+  mp4: 'video/mp4',
+  webm: 'video/webm',
+  mov: 'video/quicktime',
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  ogg: 'audio/ogg',
+  m4a: 'audio/mp4',
+  pdf: 'application/pdf',
+};
+
+export function parseExtensionList(text: string | undefined): string[] {
+  return String(text ?? '')
+    .split(/[\s,;]+/)
+    .map((ext) => ext.trim().replace(/^\./, '').toLowerCase())
+    .filter(Boolean);
+}
+
+/**
+ * Kind of a file extension, or undefined when no list contains it (the file is then ignored).
+ */
+export function getMediaKind(extension: string | undefined, settings: any): MediaKind | undefined {
+  const ext = String(extension || '').toLowerCase();
+  if (!ext) return undefined;
+  for (const kind of MEDIA_KINDS) {
+    const configured = settings?.[MEDIA_EXTENSION_SETTINGS[kind]];
+    if (parseExtensionList(configured ?? DEFAULT_MEDIA_EXTENSIONS[kind]).includes(ext)) return kind;
+  }
+  return undefined;
+}
+
+/**
+ * Cloudinary resource type for a kind; `auto` lets Cloudinary detect it from the file.
+ */
+export function getResourceType(kind: MediaKind, autoDetect = false): CloudinaryResourceType {
+  return autoDetect ? 'auto' : RESOURCE_TYPES[kind];
+}
+
+/**
+ * Markdown (or HTML, which Obsidian renders) inserted in a note for an uploaded file.
+ */
+export function buildEmbed(kind: MediaKind, url: string, alt = ''): string {
+  switch (kind) {
+    case 'video':
+      return `<video src="${url}" controls></video>`;
+    case 'audio':
+      return `<audio src="${url}" controls></audio>`;
+    case 'document':
+      return `[${alt || 'document'}](${url})`;
+    default:
+      return `![${alt}](${url})`;
+  }
+}
+
+export function getMimeType(extension: string): string {
+  return MIME_TYPES[(extension || '').toLowerCase()] ?? 'application/octet-stream';
+}
@@ -0,0 +1,203 @@
+/**
+ * Byte-level removal of privacy sensitive metadata before upload, without decoding the image:
+ * EXIF (camera, device serials, GPS location), XMP and IPTC segments of JPEGs, eXIf and text chunks of PNGs.
+ * Pixels, ICC colour profiles and JFIF headers are kept untouched.
+ */
+export interface StrippedImage {
+  bytes: Uint8Array;
+  removed: string[]; // labels of what was removed, in the order found; empty when `bytes` is the input
+}
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const PNG_TEXT_CHUNKS = new Set(['tEXt', 'zTXt', 'iTXt']);
+const EXIF_HEADER = 'Exif\0\0';
+const XMP_HEADERS = ['http://ns.adobe.com/xap/1.0/\0', 'http://ns.adobe.com/xmp/extension/\0'];
+const IPTC_HEADER = 'Photoshop 3.0\0';
+const ORIENTATION_TAG = 0x0112;
+const GPS_IFD_TAG = 0x8825;
+
+/**
+ * Remove the metadata of a JPEG or PNG. With `keepOrientation`, the EXIF orientation survives as a minimal EXIF block
+ * so rotated phone photos still display upright. Other types and unparsable data are returned as is.
+ */
+export function stripImageMetadata(bytes: Uint8Array, mime: string, keepOrientation = false): StrippedImage {
+  if (mime === 'image/jpeg') return stripJpeg(bytes, keepOrientation);
+  if (mime === 'image/png') return stripPng(bytes, keepOrientation);
+  return { bytes, removed: [] };
+}
+
+/**
+ * Notice suffix describing removed metadata, e.g. "removed EXIF, GPS location, XMP".
+ */
+export function formatRemovedMetadata(removed: string[]): string {
+  return removed.length ? `removed ${removed.join(', ')}` : '';
+}
+
+function stripJpeg(bytes: Uint8Array, keepOrientation: boolean): StrippedImage {
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) return { bytes, removed: [] };
+  const parts: Uint8Array[] = [bytes.subarray(0, 2)];
+  const removed = new Set<string>();
+  let pos = 2;
+
+  while (pos + 4 <= bytes.length && bytes[pos] === 0xff) {
+    const marker = bytes[pos + 1];
+    // Image data starts at SOS: everything after it is copied as is
+    if (marker === 0xda || marker === 0xd9) break;
+    if (marker === 0xff || marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+      parts.push(bytes.subarray(pos, pos + (marker === 0xff ? 1 : 2)));
+      pos += marker === 0xff ? 1 : 2;
+      continue;
+    }
+    const end = pos + 2 + ((bytes[pos + 2] << 8) | bytes[pos + 3]);
+    if (end > bytes.length) break;
+    const payload = bytes.subarray(pos + 4, end);
+
+    if (marker === 0xe1 && startsWith(payload, EXIF_HEADER)) {
+      const exif = readExif(payload.subarray(EXIF_HEADER.length));
+      removed.add('EXIF');
+      if (exif.gps) removed.add('GPS location');
+      if (keepOrientation && exif.orientation) parts.push(jpegSegment(0xe1, concat([ascii(EXIF_HEADER), orientationTiff(exif.orientation)])));
+    } else if (marker === 0xe1 && XMP_HEADERS.some((header) => startsWith(payload, header))) {
+      removed.add('XMP');
+    } else if (marker === 0xed && startsWith(payload, IPTC_HEADER)) {
+      removed.add('IPTC');
+    } else {
+      parts.push(bytes.subarray(pos, end));
+    }
+    pos = end;
+  }
+
+  if (!removed.size) return { bytes, removed: [] };
+  parts.push(bytes.subarray(pos));
+  return { bytes: concat(parts), removed: [...removed] };
+}
+
+function stripPng(bytes: Uint8Array, keepOrientation: boolean): StrippedImage {
+  if (!PNG_SIGNATURE.every((byte, i) => bytes[i] === byte)) return { bytes, removed: [] };
+  const parts: Uint8Array[] = [bytes.subarray(0, 8)];
+  const removed = new Set<string>();
+  let pos = 8;
+
+  while (pos + 12 <= bytes.length) {
+    const length = readUint32(bytes, pos, false);
+    const type = String.fromCharCode(...bytes.subarray(pos + 4, pos + 8));
+    const end = pos + 12 + length;
+    if (end > bytes.length) break;
+    const data = bytes.subarray(pos + 8, pos + 8 + length);
+
+    if (type === 'eXIf') {
+      const exif = readExif(data);
+      removed.add('EXIF');
+      if (exif.gps) removed.add('GPS location');
+      if (keepOrientation && exif.orientation) parts.push(pngChunk('eXIf', orientationTiff(exif.orientation)));
+    } else if (PNG_TEXT_CHUNKS.has(type)) {
+      removed.add(type === 'iTXt' && startsWith(data, 'XML:com.adobe.xmp\0') ? 'XMP' : 'text chunks');
+    } else {
+      parts.push(bytes.subarray(pos, end));
+    }
+    pos = end;
+    if (type === 'IEND') break;
+  }
+
+  if (!removed.size) return { bytes, removed: [] };
+  parts.push(bytes.subarray(pos));
+  return { bytes: concat(parts), removed: [...removed] };
+}
+
+/**
+ * Orientation and presence of a GPS block in the first IFD of a TIFF-structured EXIF block.
+ */
+function readExif(tiff: Uint8Array): { orientation?: number; gps: boolean } {
+  const result: { orientation?: number; gps: boolean } = { gps: false };
+  if (tiff.length < 8) return result;
+  const little = tiff[0] === 0x49 && tiff[1] === 0x49;
+  const ifd = readUint32(tiff, 4, little);
+  if (ifd + 2 > tiff.length) return result;
+  const count = readUint16(tiff, ifd, little);
+  for (let i = 0; i < count; i++) {
+    const entry = ifd + 2 + i * 12;
+    if (entry + 12 > tiff.length) break;
+    const tag = readUint16(tiff, entry, little);
+    if (tag === ORIENTATION_TAG) result.orientation = readUint16(tiff, entry + 8, little);
+    if (tag === GPS_IFD_TAG) result.gps = true;
+  }
+  return result;
+}
+
+/**
+ * Big-endian TIFF block holding a single IFD with the orientation tag only.
+ */
+function orientationTiff(orientation: number): Uint8Array {
+  return new Uint8Array([
+    0x4d, 0x4d, 0x00, 0x2a, 0x00, 0x00, 0x00, 0x08, // "MM" header, first IFD at offset 8
+    0x00, 0x01, // one entry
+    0x01, 0x12, 0x00, 0x03, 0x00, 0x00, 0x00, 0x01, (orientation >> 8) & 0xff, orientation & 0xff, 0x00, 0x00, // orientation, SHORT x1
+    0x00, 0x00, 0x00, 0x00, // no next IFD
+  ]);
+}
+
+function jpegSegment(marker: number, payload: Uint8Array): Uint8Array {
+  const length = payload.length + 2;
+  return concat([new Uint8Array([0xff, marker, length >> 8, length & 0xff]), payload]);
+}
+
+function pngChunk(type: string, data: Uint8Array): Uint8Array {
+  const body = concat([ascii(type), data]);
+  const chunk = new Uint8Array(body.length + 8);
+  writeUint32(chunk, 0, data.length);
+  chunk.set(body, 4);
+  writeUint32(chunk, body.length + 4, crc32(body));
+  return chunk;
+}
+
+let crcTable: Uint32Array | undefined;
+
+function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (const byte of data) crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function startsWith(bytes: Uint8Array, text: string): boolean {
+  if (bytes.length < text.length) return false;
+  for (let i = 0; i < text.length; i++) if (bytes[i] !== text.charCodeAt(i)) return false;
+  return true;
+}
+
+function ascii(text: string): Uint8Array {
+  return Uint8Array.from(text, (char) => char.charCodeAt(0));
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+function readUint16(bytes: Uint8Array, offset: number, little: boolean): number {
+  return little ? bytes[offset] | (bytes[offset + 1] << 8) : (bytes[offset] << 8) | bytes[offset + 1];
+}
+
+function readUint32(bytes: Uint8Array, offset: number, little: boolean): number {
+  const [a, b, c, d] = little ? [bytes[offset + 3], bytes[offset + 2], bytes[offset + 1], bytes[offset]] : bytes.subarray(offset, offset + 4);
+  return ((a << 24) | (b << 16) | (c << 8) | d) >>> 0;
+}
+
+function writeUint32(bytes: Uint8Array, offset: number, value: number) {
+  bytes[offset] = (value >>> 24) & 0xff;
+  bytes[offset + 1] = (value >>> 16) & 0xff;
+  bytes[offset + 2] = (value >>> 8) & 0xff;
+  bytes[offset + 3] = value & 0xff;
+}
@@ -0,0 +1,120 @@
+import type { CloudinaryCache } from './cache';
+import type { CloudinaryUploadOptions } from './cloudinary';
+import { getProviderId, UploadedAsset } from './provider';
+
+/**
+ * Cloudinary folder and public_id built from the "Folder template" and "Public ID template" settings.
+ * Placeholders: {note_folder}, {note}, {filename}, {ext}, {hash}, {yyyy}, {mm} and {dd}; every path segment
+ * of the result is slugified, and segments left empty (e.g. {note} without an active note) are dropped.
+ */
+export const NAMING_PLACEHOLDERS = ['note_folder', 'note', 'filename', 'ext', 'hash', 'yyyy', 'mm', 'dd'] as const;
+
+// Length of the {hash} value: 64 bits of the SHA-1 of the original bytes, enough to tell a vault's images apart
+const HASH_LENGTH = 16;
+// Suffixed names tried (`name-2`, `name-3`...) before falling back to a random public_id
+const MAX_NAME_ATTEMPTS = 10;
+
+export interface NamingNote {
+  path: string;
+  basename: string;
+}
+
+export interface NamingContext {
+  filename: string; // name of the uploaded file, with its extension
+  hash?: string; // shared cache hash of the original bytes
+  note?: NamingNote | null; // note the upload is inserted in
+  date?: Date;
+}
+
+export interface UploadNaming {
+  folder?: string;
+  public_id?: string;
+  dedupe: boolean; // public_id derived from the content: an asset already stored under it is the same image
+}
+
+/**
+ * Lowercase ASCII slug: accents removed, anything but letters, digits, `_` and `-` turned into single dashes.
+ */
+export function slugify(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9_-]+/g, '-')
+    .replace(/-{2,}/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Fill a naming template and slugify each path segment. Unknown placeholders are kept as typed (then slugified).
+ */
+export function renderNamingTemplate(template: string, context: NamingContext): string {
+  const values = namingValues(context);
+  const rendered = template.replace(/\{(\w+)\}/g, (match, name: string) => (name in values ? values[name] : match));
+  return rendered
+    .split('/')
+    .map(slugify)
+    .filter(Boolean)
+    .join('/');
+}
+
+/**
+ * Folder and public_id for an upload, or undefined when no template is set or the provider is not Cloudinary.
+ * The folder template is placed under the "Upload folder" setting, which stays the base folder of every upload.
+ */
+export function buildUploadNaming(settings: any, context: NamingContext): UploadNaming | undefined {
+  const folderTemplate = String(settings?.folderTemplate ?? '').trim();
+  const publicIdTemplate = String(settings?.publicIdTemplate ?? '').trim();
+  if (getProviderId(settings) !== 'cloudinary' || (!folderTemplate && !publicIdTemplate)) return undefined;
+
+  const base = String(settings?.cloudinaryFolder ?? '').replace(/^\/+|\/+$/g, '');
+  const subfolder = folderTemplate ? renderNamingTemplate(folderTemplate, context) : '';
+  const folder = [base, subfolder].filter(Boolean).join('/') || undefined;
+  const publicId = publicIdTemplate ? renderNamingTemplate(publicIdTemplate, context) : '';
+  return { folder, public_id: publicId || undefined, dedupe: !!context.hash && /\{hash\}/.test(publicIdTemplate) };
+}
+
+/**
+ * Run `upload` with the templated folder and public_id. Existing assets are never overwritten: when the public_id
+ * is already used by another image (known to the shared cache, or reported `existing` by Cloudinary), `-2`, `-3`...
+ * are appended, and after a few attempts Cloudinary picks a random public_id. With {hash} in the template an
+ * existing asset is the same image, so it is reused as is, which deduplicates uploads even without the shared cache.
+ */
+export async function uploadWithNaming(
+  settings: any,
+  context: NamingContext,
+  upload: (options: CloudinaryUploadOptions) => Promise<UploadedAsset>,
+  cache?: CloudinaryCache
+): Promise<UploadedAsset> {
+  const naming = buildUploadNaming(settings, context);
+  if (!naming) return upload({});
+  if (!naming.public_id) return upload({ folder: naming.folder });
+
+  for (let attempt = 1; attempt <= MAX_NAME_ATTEMPTS; attempt++) {
+    const publicId = attempt === 1 ? naming.public_id : `${naming.public_id}-${attempt}`;
+    const fullId = naming.folder ? `${naming.folder}/${publicId}` : publicId;
+    if (!naming.dedupe && cache && (await cache.findEntriesByPublicId(fullId)).length) continue;
+
+    const asset = await upload({ folder: naming.folder, public_id: publicId, overwrite: false });
+    if (!asset.existing || naming.dedupe) return asset;
+    if (settings?.debugLogs) console.log('[img_upload] public_id already taken, trying another one:', fullId);
+  }
+  return upload({ folder: naming.folder });
+}
+
+function namingValues(context: NamingContext): Record<string, string> {
+  const date = context.date ?? new Date();
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const dot = context.filename.lastIndexOf('.');
+  const notePath = context.note?.path ?? '';
+  return {
+    note_folder: notePath.includes('/') ? notePath.slice(0, notePath.lastIndexOf('/')) : '',
+    note: context.note?.basename ?? '',
+    filename: dot > 0 ? context.filename.slice(0, dot) : context.filename,
+    ext: dot > 0 ? context.filename.slice(dot + 1) : '',
+    hash: (context.hash ?? '').slice(0, HASH_LENGTH),
+    yyyy: String(date.getFullYear()),
+    mm: pad(date.getMonth() + 1),
+    dd: pad(date.getDate()),
+  };
+}
@@ -1,22 +1,65 @@
-import { CloudinaryUploader } from './cloudinary';
-import { CloudinaryCache } from './cache';
+import { assetFromCacheEntry, buildCacheEntry, CloudinaryCache } from './cache';
+import { isUploadCancelled } from './http';
+import { ImageEncoder, processImageForUpload } from './image-processing';
+import { formatRemovedMetadata } from './metadata';
+import { NamingNote, uploadWithNaming } from './naming';
+import { createUploadProvider, toUploadedAsset, UploadedAsset, UploadOptions } from './provider';
+
+export const DEFAULT_UPLOAD_CONCURRENCY = 3;
+
+type BlobUploader = { upload: (fileOrBlob: File | Blob, filename?: string, options?: UploadOptions) => Promise<UploadedAsset | string> };
 
 export interface PasteResult {
   url: string;
   filename: string;
+  asset?: UploadedAsset; // from the provider, or from the shared cache on cache hits
+  cached?: boolean;
+  removedMetadata?: string[]; // stripped before upload, see "Strip photo metadata"
+}
+
+export interface ImageBlob {
+  blob: Blob;
+  filename: string;
+}
+
+export interface BatchItemResult {
+  filename: string;
+  url?: string;
+  asset?: UploadedAsset;
+  cached?: boolean; // cache hit, or same data as an earlier image of the batch
+  removedMetadata?: string[];
+  error?: unknown;
+}
+
+export interface BatchUploadResult {
+  items: BatchItemResult[]; // in the order of the input
+  uploaded: number;
+  cached: number;
+  failed: number;
+  cancelled: number;
+}
+
+export interface BatchUploadOptions {
+  concurrency?: number; // defaults to the "Parallel uploads" setting
+  onProgress?: (loaded: number, total: number) => void; // bytes of the whole batch
+  signal?: AbortSignal;
+  encoder?: ImageEncoder; // test double for the resize / re-encode step
+  note?: NamingNote | null; // note the images are inserted in, for the folder and public_id templates
 }
 
 /**
- * Read image from clipboard and upload using CloudinaryUploader.
+ * Read image from clipboard and upload it with the provider selected in settings.
  * - `uploader` can be injected for testing.
  * - `clipboard` can be injected for testing or environments where navigator.clipboard is not available.
  * - `cache` can be injected to use a shared cache.
+ * - `uploadOptions` carries the progress callback and the AbortSignal used to cancel the upload.
  */
 export async function pasteClipboardImage(
   settings: any,
-  uploader?: { upload: (fileOrBlob: File | Blob, filename?: string) => Promise<string> },
+  uploader?: BlobUploader,
   clipboard?: any,
-  cache?: CloudinaryCache
+  cache?: CloudinaryCache,
+  uploadOptions?: UploadOptions
 ): Promise<PasteResult> {
   const clipboardAPI = clipboard ?? (typeof navigator !== 'undefined' ? (navigator as any).clipboard : undefined);
   if (!clipboardAPI || !clipboardAPI.read) throw new Error('Clipboard read not supported');
@@ -30,43 +73,193 @@ export async function pasteClipboardImage(
   const mime = clipboardItem.types.find((t: string) => t.startsWith('image/'));
   const blob: Blob = await clipboardItem.getType(mime);
   const ext = mime.split('/')[1] || 'png';
-  const filename = `image-${Date.now()}.${ext}`;
+  return uploadImageBlob(settings, blob, `image-${Date.now()}.${ext}`, uploader, cache, uploadOptions);
+}
+
+/**
+ * Upload image data (clipboard, paste or drop event) through the shared cache:
+ * a blob whose hash is already cached is not uploaded again. Otherwise it is resized / re-encoded
+ * first when enabled in settings (`encoder` can be injected for testing), and named after the folder and public_id
+ * templates (`note` is the note it is inserted in).
+ */
+export async function uploadImageBlob(
+  settings: any,
+  blob: Blob,
+  filename: string,
+  uploader?: BlobUploader,
+  cache?: CloudinaryCache,
+  uploadOptions?: UploadOptions,
+  encoder?: ImageEncoder,
+  note?: NamingNote | null
+): Promise<PasteResult> {
+  const mime = blob.type || 'image/png';
+  const ext = filename.includes('.') ? filename.split('.').pop() : mime.split('/')[1] || 'png';
+
+  const uploaderInstance = uploader ?? createUploadProvider(settings);
+
+  // Check cache if available; the hash also fills the {hash} naming placeholder
+  const hash = await CloudinaryCache.calculateHash(await blob.arrayBuffer());
+  const entry = await cache?.getEntry(hash);
+  if (entry) {
+    if (settings?.debugLogs) console.log('[img_upload] Cache hit for image data:', hash);
+    return { url: entry.url, filename: `cached-${hash}.${ext}`, asset: assetFromCacheEntry(entry), cached: true };
+  }
+
+  // Resized / re-encoded after the cache lookup: the hash stays the one of the original bytes
+  const prepared = await processImageForUpload(blob, filename, settings, encoder);
   // Some environments (Node in CI) don't expose `File`; fall back to Blob and pass filename to uploader
-  const fileOrBlob: File | Blob = typeof File !== 'undefined' ? new File([blob], filename, { type: mime }) : blob;
-
-  const uploaderInstance =
-    uploader ??
-    new CloudinaryUploader({
-      cloud_name: settings.cloudName || settings.cloud_name,
-      api_key: settings.apiKey || settings.api_key,
-      upload_preset: settings.uploadPreset || settings.upload_preset,
-      api_secret: settings.allowStoreApiSecret ? settings.apiSecret || settings.api_secret : undefined,
-    });
-
-  // Check cache if available
-  let hash = '';
+  const fileOrBlob: File | Blob =
+    typeof File !== 'undefined' ? new File([prepared.blob], prepared.filename, { type: prepared.blob.type || mime }) : prepared.blob;
+  const asset = await uploadWithNaming(
+    settings,
+    { filename: prepared.filename, hash, note },
+    async (naming) => toUploadedAsset(await uploaderInstance.upload(fileOrBlob, prepared.filename, { ...uploadOptions, ...naming })),
+    cache
+  );
+
+  // Update cache if available
   if (cache) {
-    const arrayBuffer = await blob.arrayBuffer();
-    hash = await CloudinaryCache.calculateHash(arrayBuffer);
-    const entry = await cache.getEntry(hash);
-    if (entry) {
-      if (settings?.debugLogs) console.log('[img_upload] Cache hit for clipboard image:', hash);
-      return { url: entry.url, filename: `cached-${hash}.${ext}` };
-    }
+    await cache.addEntry(hash, buildCacheEntry(asset, filename));
   }
 
-  const url = await uploaderInstance.upload(fileOrBlob, filename);
+  return { url: asset.url, filename: prepared.filename, asset, removedMetadata: prepared.removedMetadata };
+}
 
-  // Update cache if available
-  if (cache && hash) {
-    await cache.addEntry(hash, {
-      url,
-      public_id: null,
-      filename,
-      uploader: 'obsidian-plugin',
-      uploaded_at: new Date().toISOString(),
-    });
+/**
+ * Read every image of the clipboard and upload them with `uploadImageBlobs`.
+ */
+export async function pasteClipboardImages(
+  settings: any,
+  uploader?: BlobUploader,
+  clipboard?: any,
+  cache?: CloudinaryCache,
+  options?: BatchUploadOptions
+): Promise<BatchUploadResult> {
+  return uploadImageBlobs(settings, await readClipboardImages(settings, clipboard), uploader, cache, options);
+}
+
+/**
+ * Every image of the clipboard, in order. Throws when there is none.
+ */
+export async function readClipboardImages(settings: any, clipboard?: any): Promise<ImageBlob[]> {
+  const clipboardAPI = clipboard ?? (typeof navigator !== 'undefined' ? (navigator as any).clipboard : undefined);
+  if (!clipboardAPI || !clipboardAPI.read) throw new Error('Clipboard read not supported');
+
+  const items: any[] = await clipboardAPI.read();
+  const imageItems = items.filter((item) => item.types && item.types.some((t: string) => t.startsWith('image/')));
+  if (!imageItems.length) throw new Error('No image in clipboard');
+  if (settings?.debugLogs) console.log('[img_upload] readClipboardImages: images in clipboard', imageItems.length);
+
+  const stamp = Date.now();
+  const images: ImageBlob[] = [];
+  for (const [index, item] of imageItems.entries()) {
+    const mime = item.types.find((t: string) => t.startsWith('image/'));
+    const ext = mime.split('/')[1] || 'png';
+    const suffix = imageItems.length > 1 ? `-${index + 1}` : '';
+    images.push({ blob: await item.getType(mime), filename: `image-${stamp}${suffix}.${ext}` });
+  }
+  return images;
+}
+
+/**
+ * Upload several images with bounded concurrency, through the shared cache. Images with the same data
+ * are uploaded once. A failed image does not stop the others: its error is reported in its result.
+ */
+export async function uploadImageBlobs(
+  settings: any,
+  images: ImageBlob[],
+  uploader?: BlobUploader,
+  cache?: CloudinaryCache,
+  options: BatchUploadOptions = {}
+): Promise<BatchUploadResult> {
+  const uploaderInstance = uploader ?? createUploadProvider(settings);
+  const concurrency = Math.max(1, Math.floor(Number(options.concurrency ?? settings?.uploadConcurrency) || DEFAULT_UPLOAD_CONCURRENCY));
+
+  // Processed images can be smaller than the originals: totals are updated from the upload progress
+  const totals = images.map((image) => image.blob.size);
+  const loaded = images.map(() => 0);
+  const sum = (values: number[]) => values.reduce((acc, value) => acc + value, 0);
+  const onProgress = (index: number) =>
+    options.onProgress
+      ? (bytes: number, total: number) => {
+          loaded[index] = bytes;
+          if (total) totals[index] = total;
+          options.onProgress!(sum(loaded), sum(totals));
+        }
+      : undefined;
+
+  const uploadsByHash = new Map<string, Promise<PasteResult>>();
+  const items = await mapWithConcurrency(images, concurrency, async (image, index): Promise<BatchItemResult> => {
+    try {
+      const hash = await CloudinaryCache.calculateHash(await image.blob.arrayBuffer());
+      const earlier = uploadsByHash.get(hash);
+      if (earlier) {
+        const { url, asset } = await earlier;
+        return { filename: image.filename, url, asset, cached: true };
+      }
+
+      const upload = uploadImageBlob(
+        settings,
+        image.blob,
+        image.filename,
+        uploaderInstance,
+        cache,
+        { onProgress: onProgress(index), signal: options.signal },
+        options.encoder,
+        options.note
+      );
+      uploadsByHash.set(hash, upload);
+      const { url, asset, cached, removedMetadata } = await upload;
+      return { filename: image.filename, url, asset, cached, removedMetadata };
+    } catch (error) {
+      if (settings?.debugLogs && !isUploadCancelled(error)) console.error('[img_upload] batch upload failed for', image.filename, error);
+      return { filename: image.filename, error };
+    }
+  });
+
+  return {
+    items,
+    uploaded: items.filter((item) => item.url && !item.cached).length,
+    cached: items.filter((item) => item.url && item.cached).length,
+    failed: items.filter((item) => item.error && !isUploadCancelled(item.error)).length,
+    cancelled: items.filter((item) => item.error && isUploadCancelled(item.error)).length,
+  };
+}
+
+/**
+ * Notice text for a batch: the usual messages for a single image, counts for several.
+ */
+export function formatBatchSummary(result: BatchUploadResult): string {
+  const firstError = result.items.find((item) => item.error && !isUploadCancelled(item.error))?.error;
+  const message = (error: unknown) => (error instanceof Error ? error.message : String(error));
+  const removed = formatRemovedMetadata([...new Set(result.items.flatMap((item) => item.removedMetadata ?? []))]);
+  const privacy = removed ? ` (${removed})` : '';
+
+  if (result.items.length === 1) {
+    if (result.items[0].url) return `✅ Image uploaded!${privacy}`;
+    return firstError ? `❌ Error: ${message(firstError)}` : '⏹ Upload cancelled';
   }
 
-  return { url, filename };
+  const counts = [`${result.uploaded} uploaded`];
+  if (result.cached) counts.push(`${result.cached} from cache`);
+  if (result.failed) counts.push(`${result.failed} failed`);
+  if (result.cancelled) counts.push(`${result.cancelled} cancelled`);
+  const icon = result.failed ? '⚠️' : result.cancelled ? '⏹' : '✅';
+  return `${icon} ${result.items.length} images: ${counts.join(', ')}${firstError ? ` (${message(firstError)})` : ''}${privacy}`;
+}
+
+/**
+ * `fn` over `items` with at most `limit` calls in flight; results keep the order of `items`.
+ */
+export async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T, index: number) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
 }
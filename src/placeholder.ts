@@ -0,0 +1,92 @@
+import { isUploadCancelled } from './http';
+
+/**
+ * Text inserted at the cursor while an upload runs, replaced in place by the link once it finishes.
+ * The unique id in the link target finds it again even after more typing, other uploads, or a switch to another note.
+ */
+export interface UploadPlaceholder {
+  id: string;
+  text: string;
+  path?: string; // note holding the placeholder, to replace it once the note is no longer in the editor
+  editor: any; // editor it was inserted in, used when the note is unknown
+}
+
+interface EditorRange {
+  from: { line: number; ch: number };
+  to: { line: number; ch: number };
+}
+
+let sequence = 0;
+
+export function createPlaceholderText(id: string, label: string): string {
+  return `![Uploading ${sanitizeLabel(label)}…](#upload-${id})`;
+}
+
+/**
+ * Marker left in place of a placeholder whose upload failed.
+ */
+export function buildFailedMarker(label: string, message: string): string {
+  return `![❌ Upload failed: ${sanitizeLabel(label)} (${sanitizeLabel(message)})]()`;
+}
+
+/**
+ * Insert a placeholder in place of the selection of `editor`, or at `position` when given.
+ * `file` defaults to the active note.
+ */
+export function insertUploadPlaceholder(app: any, editor: any, label: string, file?: { path: string } | null, position?: EditorRange): UploadPlaceholder {
+  const id = `${Date.now().toString(36)}-${(++sequence).toString(36)}`;
+  const text = createPlaceholderText(id, label);
+  if (position) editor.replaceRange(text, position.from, position.to);
+  else editor.replaceSelection(text);
+  const path = (file === undefined ? app?.workspace?.getActiveFile?.() : file)?.path;
+  return { id, text, path, editor };
+}
+
+/**
+ * Replace the placeholder with `replacement` (an empty string removes it): in the editor showing its note
+ * when there is one, otherwise in the note file. Resolves false when the placeholder was deleted meanwhile.
+ */
+export async function replaceUploadPlaceholder(app: any, placeholder: UploadPlaceholder, replacement: string): Promise<boolean> {
+  const editor = findEditor(app, placeholder);
+  if (editor) {
+    const content: string = editor.getValue();
+    const start = content.indexOf(placeholder.text);
+    if (start < 0) return false;
+    editor.replaceRange(replacement, editor.offsetToPos(start), editor.offsetToPos(start + placeholder.text.length));
+    return true;
+  }
+
+  const file = placeholder.path ? app?.vault?.getAbstractFileByPath?.(placeholder.path) : undefined;
+  if (!file) return false;
+  let found = false;
+  await app.vault.process(file, (content: string) => {
+    found = content.includes(placeholder.text);
+    return found ? content.replace(placeholder.text, () => replacement) : content;
+  });
+  return found;
+}
+
+/**
+ * Replace the placeholder with the links of a finished upload, the failure marker of `error`,
+ * or nothing when the upload was cancelled.
+ */
+export function finishUploadPlaceholder(app: any, placeholder: UploadPlaceholder, label: string, links: string[], error?: unknown): Promise<boolean> {
+  if (links.length) return replaceUploadPlaceholder(app, placeholder, links.join('\n'));
+  if (!error || isUploadCancelled(error)) return replaceUploadPlaceholder(app, placeholder, '');
+  return replaceUploadPlaceholder(app, placeholder, buildFailedMarker(label, error instanceof Error ? error.message : String(error)));
+}
+
+/**
+ * Editor currently showing the note of the placeholder. The editor it was inserted in may show another note by now.
+ */
+function findEditor(app: any, placeholder: UploadPlaceholder): any {
+  if (!placeholder.path) return placeholder.editor;
+  const leaves: any[] = app?.workspace?.getLeavesOfType?.('markdown') ?? [];
+  const view = leaves.map((leaf) => leaf.view).find((v) => v?.file?.path === placeholder.path && v.editor);
+  return view?.editor;
+}
+
+function sanitizeLabel(text: string): string {
+  // Brackets and line breaks would end the image alt text early
+  return text.replace(/\s*[\r\n]+\s*/g, ' ').replace(/\[/g, '(').replace(/\]/g, ')').trim();
+}
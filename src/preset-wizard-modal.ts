@@ -0,0 +1,110 @@
+import { App, Modal, Notice, Setting } from 'obsidian';
+import { CloudinaryUploader, defaultPresetConfig, saveUploadPreset, UploadPresetConfig } from './cloudinary';
+
+const MB = 1024 * 1024;
+
+/**
+ * Create or update an upload preset with its folder, tags, allowed formats, max file size and incoming transformation.
+ * Starts from the restricted defaults of the plugin settings; "Load" reads an existing preset with the same name.
+ */
+export class PresetWizardModal extends Modal {
+  private readonly uploader: CloudinaryUploader;
+  private readonly settings: any;
+  private readonly onSaved: (name: string) => Promise<void>;
+  private config: UploadPresetConfig;
+  private status = '';
+
+  constructor(app: App, uploader: CloudinaryUploader, settings: any, onSaved: (name: string) => Promise<void>) {
+    super(app);
+    this.uploader = uploader;
+    this.settings = settings;
+    this.onSaved = onSaved;
+    const defaults = defaultPresetConfig(settings);
+    this.config = { ...defaults, name: settings.uploadPreset || defaults.name };
+  }
+
+  onOpen() {
+    this.render();
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+
+  private render() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.createEl('h3', { text: 'Upload preset' });
+    contentEl.createEl('p', {
+      text: 'Anyone knowing the name of an unsigned preset can upload with it: restrict what it accepts.',
+      cls: 'setting-item-description',
+    });
+
+    const text = (name: string, desc: string, value: string, onChange: (value: string) => void) =>
+      new Setting(contentEl)
+        .setName(name)
+        .setDesc(desc)
+        .addText((input: any) => input.setValue(value).onChange((v: string) => onChange(v.trim())));
+
+    text('Name', 'Preset name, saved in the plugin settings', this.config.name, (v) => (this.config.name = v));
+    new Setting(contentEl)
+      .setName('Unsigned')
+      .setDesc('Unsigned presets allow uploads without the API secret')
+      .addToggle((toggle: any) => toggle.setValue(this.config.unsigned !== false).onChange((v: boolean) => (this.config.unsigned = v)));
+    text('Folder', 'Folder receiving the uploads', this.config.folder ?? '', (v) => (this.config.folder = v || undefined));
+    text('Tags', 'Comma separated tags added to every upload', listText(this.config.tags), (v) => (this.config.tags = v || undefined));
+    text('Allowed formats', 'Comma separated extensions; other files are rejected', listText(this.config.allowed_formats), (v) => (this.config.allowed_formats = v || undefined));
+    text('Max file size (MB)', 'Larger files are rejected; empty for no limit', this.config.max_file_size ? String(this.config.max_file_size / MB) : '', (v) => {
+      const mb = Number(v);
+      this.config.max_file_size = v && isFinite(mb) && mb > 0 ? Math.round(mb * MB) : undefined;
+    });
+    text('Incoming transformation', 'Applied before the file is stored, e.g. c_limit,w_2000', this.config.transformation ?? '', (v) => {
+      this.config.transformation = v || undefined;
+    });
+
+    if (this.status) contentEl.createEl('p', { text: this.status });
+
+    const row = contentEl.createDiv({ cls: 'setting-item' });
+    const loadBtn = row.createEl('button', { text: 'Load existing' });
+    loadBtn.addEventListener('click', () => void this.load());
+    const saveBtn = row.createEl('button', { text: 'Save preset', cls: 'mod-cta' });
+    saveBtn.addEventListener('click', () => void this.save());
+  }
+
+  private async load() {
+    try {
+      const existing = await this.uploader.getUploadPreset(this.config.name);
+      if (existing) {
+        this.config = existing;
+        this.status = `Loaded '${existing.name}' (${existing.unsigned ? 'unsigned' : 'signed'})`;
+      } else {
+        this.status = `No preset named '${this.config.name}' yet: saving will create it`;
+      }
+    } catch (e: any) {
+      if (this.settings?.debugLogs) console.error('[img_upload] getUploadPreset error', e);
+      this.status = `❌ ${e?.message || String(e)}`;
+    }
+    this.render();
+  }
+
+  private async save() {
+    if (!this.config.name) {
+      new Notice('⚠️ Enter a preset name');
+      return;
+    }
+    try {
+      const result = await saveUploadPreset(this.uploader, this.config);
+      await this.onSaved(this.config.name);
+      new Notice(`✅ ${result === 'created' ? 'Created' : 'Updated'} upload preset '${this.config.name}'`);
+      this.close();
+    } catch (e: any) {
+      if (this.settings?.debugLogs) console.error('[img_upload] saveUploadPreset error', e);
+      this.status = `❌ ${e?.message || String(e)}`;
+      this.render();
+    }
+  }
+}
+
+function listText(value: string[] | string | undefined): string {
+  return Array.isArray(value) ? value.join(', ') : (value ?? '');
+}
@@ -0,0 +1,59 @@
+import { Notice } from 'obsidian';
+
+/**
+ * What the upload paths need to report progress and be cancelled. Injected into `processFileCreate`
+ * so the file handler stays free of UI code.
+ */
+export interface UploadProgressHandle {
+  signal: AbortSignal;
+  onProgress(loaded: number, total: number): void;
+  finish(): void;
+}
+
+/**
+ * Persistent notice showing the upload progress with a Cancel button.
+ * Cancelling aborts the request; the caller then leaves the note untouched.
+ */
+export class UploadProgressNotice implements UploadProgressHandle {
+  private readonly controller = new AbortController();
+  private readonly notice: any;
+  private readonly textEl: HTMLElement;
+  private readonly label: string;
+
+  constructor(label: string) {
+    this.label = label;
+    this.notice = new Notice('', 0);
+
+    const fragment = document.createDocumentFragment();
+    this.textEl = fragment.appendChild(document.createElement('div'));
+    this.textEl.setText(`⏳ Uploading ${label}...`);
+    const cancelBtn = fragment.appendChild(document.createElement('button'));
+    cancelBtn.setText('Cancel');
+    cancelBtn.addEventListener('click', (evt) => {
+      // Clicking a notice hides it: keep that, but abort the upload first
+      evt.stopPropagation();
+      this.controller.abort();
+      this.finish();
+    });
+    this.notice.setMessage(fragment);
+  }
+
+  get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  onProgress(loaded: number, total: number): void {
+    this.textEl.setText(`⏳ Uploading ${this.label}... ${formatProgress(loaded, total)}`);
+  }
+
+  finish(): void {
+    this.notice.hide();
+  }
+}
+
+export function formatProgress(loaded: number, total: number): string {
+  const mb = (bytes: number) => (bytes / (1024 * 1024)).toFixed(1);
+  if (!total) return `${mb(loaded)} MB`;
+  const percent = Math.min(100, Math.round((loaded / total) * 100));
+  return `${percent}% (${mb(loaded)} / ${mb(total)} MB)`;
+}
@@ -0,0 +1,162 @@
+import { CloudinaryUploader } from './cloudinary';
+import { CustomEndpointUploader, parseKeyValueLines } from './custom-endpoint';
+import type { MediaKind } from './media';
+import { S3Uploader } from './s3';
+import { WebDavUploader } from './webdav';
+
+export type ProviderId = 'cloudinary' | 's3' | 'webdav' | 'custom';
+
+/**
+ * Common surface of every upload backend. The paste and auto-upload paths only talk to this
+ * interface so a new storage target only needs a class implementing it and an entry in
+ * `createUploadProvider`.
+ */
+export interface UploadProvider {
+  /** Upload a File or Blob and resolve with the stored asset (public URL, provider id, metadata when known). */
+  upload(fileOrBlob: File | Blob, filename?: string, options?: UploadOptions): Promise<UploadedAsset>;
+  /** Remove a previously uploaded asset, identified by the provider's own id (public_id, object key...). */
+  delete(id: string): Promise<void>;
+  /** Short human readable label used in notices and debug logs, e.g. `Cloudinary (demo)`. */
+  describe(): string;
+}
+
+/**
+ * Per-upload options understood by every provider. Providers may accept more (see `CloudinaryUploadOptions`).
+ */
+export interface UploadOptions {
+  /** Called while the file is sent; `total` is 0 when the size is unknown. */
+  onProgress?: (loaded: number, total: number) => void;
+  /** Aborts the upload; the promise then rejects with an `UploadCancelledError`. */
+  signal?: AbortSignal;
+  /** What is being uploaded (defaults to `image`); Cloudinary uses it to pick the resource type. */
+  kind?: MediaKind;
+}
+
+/**
+ * Result of an upload. Only `url` is guaranteed; the other fields are filled when the provider reports them.
+ */
+export interface UploadedAsset {
+  url: string;
+  public_id: string | null; // id accepted by `delete()`: Cloudinary public_id, S3 object key, WebDAV path...
+  resource_type?: string;
+  width?: number;
+  height?: number;
+  bytes?: number;
+  format?: string;
+  version?: number;
+  existing?: boolean; // Cloudinary kept the asset already stored under the requested public_id instead of this upload
+}
+
+/**
+ * Accept uploaders that still resolve with a bare URL (injected test doubles, older custom uploaders).
+ */
+export function toUploadedAsset(result: string | UploadedAsset): UploadedAsset {
+  return typeof result === 'string' ? { url: result, public_id: null } : result;
+}
+
+export const PROVIDER_LABELS: Record<ProviderId, string> = {
+  cloudinary: 'Cloudinary',
+  s3: 'S3-compatible (AWS, MinIO...)',
+  webdav: 'WebDAV (Nextcloud, ownCloud...)',
+  custom: 'Custom HTTP endpoint',
+};
+
+export function getProviderId(settings: any): ProviderId {
+  const id = settings?.provider;
+  return id && Object.prototype.hasOwnProperty.call(PROVIDER_LABELS, id) ? id : 'cloudinary';
+}
+
+/**
+ * Build the provider selected in settings.
+ * - `cloudinaryCtor` can be injected for testing (same contract as `CloudinaryUploader`).
+ */
+export function createUploadProvider(settings: any, cloudinaryCtor: any = CloudinaryUploader): UploadProvider {
+  const providerId = getProviderId(settings);
+  if (providerId === 'custom') {
+    return new CustomEndpointUploader({
+      url: settings.customUploadUrl,
+      file_field: settings.customFileField,
+      extra_fields: parseKeyValueLines(settings.customExtraFields, '='),
+      headers: parseKeyValueLines(settings.customHeaders, ':'),
+      response_url_path: settings.customResponseUrlPath,
+    });
+  }
+
+  if (providerId === 'webdav') {
+    return new WebDavUploader({
+      url: settings.webdavUrl,
+      username: settings.webdavUsername,
+      password: settings.webdavPassword,
+      folder: settings.webdavFolder,
+      public_url_prefix: settings.webdavPublicUrlPrefix,
+    });
+  }
+
+  if (providerId === 's3') {
+    return new S3Uploader({
+      endpoint: settings.s3Endpoint,
+      region: settings.s3Region,
+      bucket: settings.s3Bucket,
+      accessKeyId: settings.s3AccessKeyId,
+      secretAccessKey: settings.s3SecretAccessKey,
+      prefix: settings.s3Prefix,
+      publicBaseUrl: settings.s3PublicBaseUrl,
+      forcePathStyle: settings.s3ForcePathStyle,
+    });
+  }
+
+  return createCloudinaryUploader(settings, cloudinaryCtor);
+}
+
+/**
+ * Build the Cloudinary uploader from settings, whatever the selected provider
+ * (used to manage Cloudinary assets already linked in notes).
+ */
+export function createCloudinaryUploader(settings: any, cloudinaryCtor: any = CloudinaryUploader): CloudinaryUploader {
+  return new cloudinaryCtor({
+    cloud_name: settings.cloudName || settings.cloud_name,
+    api_key: settings.apiKey || settings.api_key,
+    upload_preset: settings.uploadPreset || settings.upload_preset,
+    api_secret: settings.allowStoreApiSecret ? settings.apiSecret || settings.api_secret : undefined,
+    signature_endpoint: settings.signatureEndpoint || undefined,
+    upload_options: { folder: settings.cloudinaryFolder || undefined, tags: settings.cloudinaryTags || undefined },
+    auto_resource_type: !!settings.cloudinaryAutoResourceType,
+  });
+}
+
+/**
+ * True when the selected provider has a destination configured (cloud name, bucket...).
+ * Used to decide whether auto-upload should be attempted at all.
+ */
+export function providerHasTarget(settings: any): boolean {
+  const providerId = getProviderId(settings);
+  if (providerId === 's3') return !!(settings?.s3Endpoint && settings?.s3Bucket);
+  if (providerId === 'webdav') return !!settings?.webdavUrl;
+  if (providerId === 'custom') return !!settings?.customUploadUrl;
+  return !!settings?.cloudName;
+}
+
+/**
+ * True when the selected provider has everything needed to authenticate an upload.
+ */
+export function providerCanUpload(settings: any): boolean {
+  if (!providerHasTarget(settings)) return false;
+  const providerId = getProviderId(settings);
+  if (providerId === 's3') return !!(settings.s3AccessKeyId && settings.s3SecretAccessKey);
+  // Anonymous WebDAV servers exist, credentials are optional
+  if (providerId === 'webdav') return true;
+  // Authentication for custom endpoints lives in the configured headers/fields, nothing else to check
+  if (providerId === 'custom') return true;
+  const canUnsigned = !!settings.uploadPreset;
+  return canUnsigned || cloudinaryCanSign(settings);
+}
+
+/**
+ * True when Cloudinary requests can be signed: stored API secret (opt-in) or remote signing endpoint.
+ * Signing is required for signed uploads and for every management call (destroy, admin API).
+ */
+export function cloudinaryCanSign(settings: any): boolean {
+  const canSigned = !!(settings?.allowStoreApiSecret && settings.apiSecret && settings.apiKey);
+  const canRemoteSigned = !!settings?.signatureEndpoint;
+  return canSigned || canRemoteSigned;
+}
@@ -0,0 +1,69 @@
+import { App, Modal, Notice } from 'obsidian';
+import type { UploadQueue } from './queue';
+
+/**
+ * Lists the queued uploads with their last error and next attempt, and lets the user retry or drop them.
+ */
+export class UploadQueueModal extends Modal {
+  private readonly queue: UploadQueue;
+
+  constructor(app: App, queue: UploadQueue) {
+    super(app);
+    this.queue = queue;
+  }
+
+  onOpen() {
+    this.render();
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+
+  private render() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.createEl('h3', { text: `Upload queue (${this.queue.items.length})` });
+
+    if (!this.queue.items.length) {
+      contentEl.createEl('p', { text: 'No pending uploads. Failed uploads are retried automatically from here.' });
+      return;
+    }
+
+    const actions = contentEl.createDiv({ cls: 'setting-item' });
+    const retryAllBtn = actions.createEl('button', { text: 'Retry all' });
+    retryAllBtn.addEventListener('click', async () => {
+      // Each successful item already shows its own notice
+      const { uploaded, failed } = await this.queue.processDue(true);
+      if (failed) new Notice(`⚠️ ${uploaded} uploaded, ${failed} still failing`);
+      this.render();
+    });
+    const dropAllBtn = actions.createEl('button', { text: 'Drop all' });
+    dropAllBtn.addEventListener('click', async () => {
+      await this.queue.clear();
+      this.render();
+    });
+
+    for (const item of this.queue.items) {
+      const row = contentEl.createDiv({ cls: 'setting-item' });
+      const info = row.createDiv({ cls: 'setting-item-info' });
+      info.createDiv({ cls: 'setting-item-name', text: item.path });
+      info.createDiv({
+        cls: 'setting-item-description',
+        text: `${item.attempts} attempt(s) · next: ${new Date(item.nextAttemptAt).toLocaleString()} · ${item.lastError}`,
+      });
+
+      const controls = row.createDiv({ cls: 'setting-item-control' });
+      const retryBtn = controls.createEl('button', { text: 'Retry' });
+      retryBtn.addEventListener('click', async () => {
+        if (!(await this.queue.retry(item.id))) new Notice(`❌ Still failing: ${item.path}`);
+        this.render();
+      });
+      const dropBtn = controls.createEl('button', { text: 'Drop' });
+      dropBtn.addEventListener('click', async () => {
+        await this.queue.remove(item.id);
+        this.render();
+      });
+    }
+  }
+}
@@ -0,0 +1,187 @@
+import { TFile } from 'obsidian';
+import { CloudinaryUploader } from './cloudinary';
+import { replaceReferencesInVault, uploadVaultFile } from './file-handler';
+
+export interface QueuedUpload {
+  id: string;
+  path: string; // vault path of the local file the notes still point at
+  attempts: number;
+  nextAttemptAt: number; // epoch ms
+  lastError: string;
+  queuedAt: string;
+}
+
+export interface UploadQueueOptions {
+  uploaderCtor?: any;
+  notify?: (msg: string) => void;
+  now?: () => number;
+}
+
+export interface QueueRunResult {
+  uploaded: number;
+  failed: number;
+  dropped: number;
+}
+
+export const QUEUE_BASE_DELAY_MS = 30 * 1000;
+export const QUEUE_MAX_DELAY_MS = 60 * 60 * 1000;
+
+/**
+ * Delay before the next attempt: 30 s, 1 min, 2 min... capped at one hour.
+ */
+export function getRetryDelay(attempts: number): number {
+  return Math.min(QUEUE_BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1), QUEUE_MAX_DELAY_MS);
+}
+
+/**
+ * Persistent queue of uploads that failed (offline, server errors...).
+ * Items live in `settings.uploadQueue` so they survive restarts; a successful retry rewrites
+ * the references in every note still pointing at the local file.
+ */
+export class UploadQueue {
+  private readonly app: any;
+  private readonly settings: any;
+  private readonly saveSettings: () => Promise<void>;
+  private readonly uploaderCtor: any;
+  private readonly notify: (msg: string) => void;
+  private readonly now: () => number;
+  // Runs are chained: the interval, the `online` event and the modal may all fire together
+  private running: Promise<unknown> = Promise.resolve();
+  private readonly uploadedIds = new Set<string>();
+
+  constructor(app: any, settings: any, saveSettings: () => Promise<void>, options: UploadQueueOptions = {}) {
+    this.app = app;
+    this.settings = settings;
+    this.saveSettings = saveSettings;
+    this.uploaderCtor = options.uploaderCtor ?? CloudinaryUploader;
+    this.notify = options.notify ?? (() => {});
+    this.now = options.now ?? Date.now;
+  }
+
+  get items(): QueuedUpload[] {
+    return Array.isArray(this.settings.uploadQueue) ? this.settings.uploadQueue : [];
+  }
+
+  /**
+   * Queue a file, or refresh its error if it is already queued.
+   */
+  async enqueue(file: TFile, error: unknown): Promise<QueuedUpload> {
+    const lastError = errorMessage(error);
+    const existing = this.items.find((item) => item.path === file.path);
+    if (existing) {
+      this.setItems(this.items.map((item) => (item === existing ? { ...item, lastError } : item)));
+      await this.saveSettings();
+      return this.items.find((item) => item.path === file.path) as QueuedUpload;
+    }
+
+    const item: QueuedUpload = {
+      id: `${this.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      path: file.path,
+      attempts: 0,
+      nextAttemptAt: this.now() + getRetryDelay(1),
+      lastError,
+      queuedAt: new Date(this.now()).toISOString(),
+    };
+    // Always assign a new array: the default settings object must never be mutated
+    this.setItems([...this.items, item]);
+    await this.saveSettings();
+    if (this.settings?.debugLogs) console.log('[img_upload] queued upload for retry:', item);
+    return item;
+  }
+
+  async remove(id: string): Promise<void> {
+    this.setItems(this.items.filter((item) => item.id !== id));
+    await this.saveSettings();
+  }
+
+  async clear(): Promise<void> {
+    this.setItems([]);
+    await this.saveSettings();
+  }
+
+  /**
+   * Retry one item right away, whatever its backoff. Returns true when it was uploaded, by this retry or by the run
+   * that was in progress.
+   */
+  async retry(id: string): Promise<boolean> {
+    if (!this.items.some((i) => i.id === id)) return false;
+    await this.run(() => this.items.filter((i) => i.id === id));
+    return this.uploadedIds.has(id);
+  }
+
+  /**
+   * Retry the items whose backoff expired, or all of them with `force`
+   * (app start, network back online, "Retry all").
+   */
+  async processDue(force = false): Promise<QueueRunResult> {
+    return this.run(() => this.items.filter((item) => force || item.nextAttemptAt <= this.now()));
+  }
+
+  /**
+   * Upload the items picked by `select` once the run in progress (if any) is done, so the same file is never uploaded
+   * twice at once and items handled by that run are not retried right away.
+   */
+  private run(select: () => QueuedUpload[]): Promise<QueueRunResult> {
+    const run = this.running.then(() => this.runNow(select()));
+    this.running = run.catch(() => {});
+    return run;
+  }
+
+  private async runNow(items: QueuedUpload[]): Promise<QueueRunResult> {
+    const result: QueueRunResult = { uploaded: 0, failed: 0, dropped: 0 };
+    if (!items.length) return result;
+
+    for (const queued of items) {
+      // Uploaded by an earlier run, removed or cleared since the list was taken
+      const item = this.items.find((i) => i.id === queued.id);
+      if (!item) continue;
+
+      const file = this.app.vault.getAbstractFileByPath(item.path);
+      if (!(file instanceof TFile)) {
+        if (this.settings?.debugLogs) console.log('[img_upload] queued file no longer exists, dropping:', item.path);
+        this.setItems(this.items.filter((i) => i.id !== item.id));
+        result.dropped++;
+        continue;
+      }
+
+      try {
+        const uploaded = await uploadVaultFile(this.app, this.settings, file, this.uploaderCtor);
+        const notes = await replaceReferencesInVault(this.app, file, uploaded, this.settings);
+        this.setItems(this.items.filter((i) => i.id !== item.id));
+        this.uploadedIds.add(item.id);
+        result.uploaded++;
+        this.notify(`✅ Queued upload done: ${file.name} (${notes} note${notes === 1 ? '' : 's'} updated)`);
+        await this.deleteSourceIfWanted(file);
+      } catch (e) {
+        const attempts = item.attempts + 1;
+        this.setItems(
+          this.items.map((i) =>
+            i.id === item.id ? { ...i, attempts, lastError: errorMessage(e), nextAttemptAt: this.now() + getRetryDelay(attempts + 1) } : i
+          )
+        );
+        result.failed++;
+        if (this.settings?.debugLogs) console.log('[img_upload] queued upload failed again:', item.path, e);
+      }
+    }
+    await this.saveSettings();
+    return result;
+  }
+
+  private async deleteSourceIfWanted(file: TFile): Promise<void> {
+    // With a local copy the queued file *is* the copy: keep it
+    if (!this.settings.deleteSourceAfterUpload || this.settings.localCopyEnabled) return;
+    try {
+      await this.app.vault.delete(file);
+    } catch (e) {
+      if (this.settings?.debugLogs) console.error('[img_upload] Failed to delete original file', file.path, e);
+    }
+  }
+
+  private setItems(items: QueuedUpload[]): void {
+    this.settings.uploadQueue = items;
+  }
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
@@ -0,0 +1,101 @@
+import { MarkdownView, TFile } from 'obsidian';
+
+export const DEFAULT_REFERENCE_TIMEOUT_SECONDS = 10;
+
+// Polling fallback, used when the app has no metadata cache
+const POLL_INTERVAL_MS = 100;
+
+/**
+ * Notes linking to or embedding `file`, according to the resolved links of the metadata cache
+ * (note path → linked file path → number of links).
+ */
+export function findReferencingNotes(app: any, file: TFile): string[] {
+  const resolved: Record<string, Record<string, number>> = app?.metadataCache?.resolvedLinks ?? {};
+  return Object.keys(resolved).filter((note) => resolved[note]?.[file.path]);
+}
+
+/**
+ * Wait until a note references `file`, for up to the "Reference wait" setting. Notes are found through the metadata cache:
+ * its resolved links first, then every `changed` (a note was indexed) and `resolved` (links were resolved) event,
+ * so files added by sync, by other plugins or into a note that is not focused are found as well.
+ * Resolves with the paths of the referencing notes, or null after the timeout. Without a metadata cache the active editor
+ * is polled instead, and [] means the reference is in the active note.
+ */
+export function waitForReferencingNotes(app: any, file: TFile, settings: any): Promise<string[] | null> {
+  const seconds = Number(settings?.referenceTimeoutSeconds ?? DEFAULT_REFERENCE_TIMEOUT_SECONDS);
+  const timeoutMs = Math.max(0, Number.isFinite(seconds) ? seconds : DEFAULT_REFERENCE_TIMEOUT_SECONDS) * 1000;
+  const metadataCache = app?.metadataCache;
+  if (typeof metadataCache?.on !== 'function') return pollActiveEditor(app, file, timeoutMs, settings);
+
+  const notes = findReferencingNotes(app, file);
+  if (notes.length) return Promise.resolve(notes);
+
+  return new Promise((resolve) => {
+    const refs: any[] = [];
+    let done = false;
+    const finish = (result: string[] | null) => {
+      if (done) return;
+      done = true;
+      clearTimeout(timer);
+      for (const ref of refs) metadataCache.offref(ref);
+      if (settings?.debugLogs) console.log('[img_upload] Reference check for', file.path, result ? `found in ${result.join(', ')}` : 'timed out');
+      resolve(result);
+    };
+    const timer = setTimeout(() => finish(null), timeoutMs);
+
+    refs.push(
+      metadataCache.on('changed', (note: TFile, _data: string, cache: any) => {
+        // The resolved links of `note` may not be updated yet: resolve its links and embeds directly
+        if (linksTo(app, note, cache, file)) finish([...new Set([note.path, ...findReferencingNotes(app, file)])]);
+      })
+    );
+    refs.push(
+      metadataCache.on('resolved', () => {
+        const found = findReferencingNotes(app, file);
+        if (found.length) finish(found);
+      })
+    );
+  });
+}
+
+function linksTo(app: any, note: TFile, cache: any, file: TFile): boolean {
+  const links: Array<{ link: string }> = [...(cache?.embeds ?? []), ...(cache?.links ?? [])];
+  return links.some(({ link }) => {
+    const linkpath = link.split('#')[0];
+    const dest = app.metadataCache.getFirstLinkpathDest?.(linkpath, note.path) ?? app.metadataCache.getFirstLinkpathDest?.(safeDecode(linkpath), note.path);
+    return dest?.path === file.path;
+  });
+}
+
+/**
+ * Previous detection, kept for apps without a metadata cache: look for the file name or path in the active editor.
+ */
+async function pollActiveEditor(app: any, file: TFile, timeoutMs: number, settings: any): Promise<string[] | null> {
+  const attempts = Math.max(1, Math.ceil(timeoutMs / POLL_INTERVAL_MS));
+  for (let attempt = 0; attempt < attempts; attempt++) {
+    const activeView = app.workspace?.getActiveViewOfType?.(MarkdownView) as any;
+    const content: string = activeView?.editor?.getValue() || '';
+    // Check various ways Obsidian might link the file
+    if (
+      content.includes(file.path) ||
+      content.includes(file.name) ||
+      content.includes(`[[${file.basename}]]`) ||
+      content.includes(`(${encodeURIComponent(file.path)})`) ||
+      content.includes(`(${encodeURIComponent(file.name)})`) ||
+      content.includes(`![[${file.basename}]]`)
+    ) {
+      if (settings?.debugLogs) console.log('[img_upload] Reference found in the active note for:', file.path, 'after', attempt, 'attempts');
+      return [];
+    }
+    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+  return null;
+}
+
+function safeDecode(text: string): string {
+  try {
+    return decodeURIComponent(text);
+  } catch (e) {
+    return text;
+  }
+}
@@ -0,0 +1,139 @@
+import { htmlToMarkdown } from 'obsidian';
+import type { CloudinaryCache } from './cache';
+import type { CloudinaryUploadOptions } from './cloudinary';
+import { parseCloudinaryUrl } from './cloudinary-url';
+import { isUploadCancelled } from './http';
+import { NamingNote, uploadWithNaming } from './naming';
+import { DEFAULT_UPLOAD_CONCURRENCY, mapWithConcurrency, PasteResult } from './paste';
+import type { UploadedAsset } from './provider';
+import { applyDefaultTransformation } from './transformations';
+
+type UrlUploader = { uploadFromUrl: (remoteUrl: string, options?: CloudinaryUploadOptions) => Promise<UploadedAsset> };
+
+export interface RehostResult {
+  markdown: string;
+  rehosted: number; // uploaded now or found in the cache
+  failed: number; // left on their original host
+  error?: unknown; // first failure
+}
+
+const IMG_TAG = /<img\b[^>]*>/gi;
+const SRC_ATTRIBUTE = /(\ssrc\s*=\s*)(?:"([^"]*)"|'([^']*)'|([^\s>]+))/i;
+const RESPONSIVE_ATTRIBUTES = /\s(?:srcset|sizes)\s*=\s*(?:"[^"]*"|'[^']*'|[^\s>]+)/gi;
+
+// Copies made during this session, by remote URL. Kept out of the shared cache, whose keys are hashes of file bytes
+// read by other tools; an image changed at the same URL is copied again in the next session.
+const rehostedUrls = new Map<string, UploadedAsset>();
+
+export function resetRehostedUrls() {
+  rehostedUrls.clear();
+}
+
+/**
+ * Remote images of an HTML fragment that are not on Cloudinary yet: http(s) `<img src>`, in document order,
+ * without duplicates.
+ */
+export function findRemoteImages(html: string): string[] {
+  const urls = (html.match(IMG_TAG) ?? []).map(getSrc).filter((src): src is string => !!src && isRemoteImage(src));
+  return [...new Set(urls)];
+}
+
+/**
+ * Upload a remote image by URL: Cloudinary fetches it itself, so no bytes go through the vault.
+ * A URL is fetched once per session. Without the bytes there is no content hash, so {hash} is left out of the naming
+ * templates; `cache` is only used to keep templated public_ids unique.
+ */
+export async function uploadImageFromUrl(
+  settings: any,
+  remoteUrl: string,
+  uploader: UrlUploader,
+  cache?: CloudinaryCache,
+  options: CloudinaryUploadOptions = {},
+  note?: NamingNote | null
+): Promise<PasteResult> {
+  const filename = filenameFromUrl(remoteUrl);
+  const copy = rehostedUrls.get(remoteUrl);
+  if (copy) {
+    if (settings?.debugLogs) console.log('[img_upload] Remote image already re-hosted:', remoteUrl);
+    return { url: copy.url, filename, asset: copy, cached: true };
+  }
+
+  if (settings?.debugLogs) console.log('[img_upload] uploadImageFromUrl:', remoteUrl);
+  const asset = await uploadWithNaming(settings, { filename, note }, (naming) => uploader.uploadFromUrl(remoteUrl, { ...options, ...naming }), cache);
+  rehostedUrls.set(remoteUrl, asset);
+  return { url: asset.url, filename, asset };
+}
+
+/**
+ * Copy the remote images of pasted HTML to Cloudinary and convert the HTML to markdown pointing at the copies.
+ * Images that fail keep their original URL.
+ */
+export async function rehostHtmlImages(
+  settings: any,
+  html: string,
+  uploader: UrlUploader,
+  cache?: CloudinaryCache,
+  options: { signal?: AbortSignal; note?: NamingNote | null } = {}
+): Promise<RehostResult> {
+  const remoteUrls = findRemoteImages(html);
+  const concurrency = Math.max(1, Math.floor(Number(settings?.uploadConcurrency) || DEFAULT_UPLOAD_CONCURRENCY));
+  const results = await mapWithConcurrency(remoteUrls, concurrency, async (remoteUrl) => {
+    try {
+      return { url: (await uploadImageFromUrl(settings, remoteUrl, uploader, cache, { signal: options.signal }, options.note)).url };
+    } catch (error) {
+      if (settings?.debugLogs && !isUploadCancelled(error)) console.error('[img_upload] re-hosting failed for', remoteUrl, error);
+      return { error };
+    }
+  });
+
+  const copies = new Map<string, string>();
+  remoteUrls.forEach((remoteUrl, index) => {
+    const url = results[index].url;
+    if (url) copies.set(remoteUrl, applyDefaultTransformation(url, settings));
+  });
+
+  const rewritten = html.replace(IMG_TAG, (tag) => {
+    const copy = copies.get(getSrc(tag) ?? '');
+    if (!copy) return tag;
+    // The srcset candidates still point at the original host
+    return tag.replace(RESPONSIVE_ATTRIBUTES, '').replace(SRC_ATTRIBUTE, (_match, prefix) => `${prefix}"${copy}"`);
+  });
+
+  const failures = results.filter((result) => result.error);
+  return {
+    markdown: htmlToMarkdown(rewritten).trim(),
+    rehosted: copies.size,
+    failed: failures.length,
+    error: failures.find((result) => !isUploadCancelled(result.error))?.error ?? failures[0]?.error,
+  };
+}
+
+export function formatRehostSummary(result: RehostResult): string {
+  const total = result.rehosted + result.failed;
+  if (!result.failed) return `✅ Re-hosted ${total} image${total === 1 ? '' : 's'} on Cloudinary`;
+  const reason = isUploadCancelled(result.error) ? 'cancelled' : result.error instanceof Error ? result.error.message : String(result.error);
+  return `⚠️ Re-hosted ${result.rehosted} of ${total} images, ${result.failed} kept on their original host (${reason})`;
+}
+
+function getSrc(tag: string): string | undefined {
+  const match = tag.match(SRC_ATTRIBUTE);
+  if (!match) return undefined;
+  return decodeEntities((match[2] ?? match[3] ?? match[4] ?? '').trim());
+}
+
+function isRemoteImage(src: string): boolean {
+  return /^https?:\/\//i.test(src) && !parseCloudinaryUrl(src);
+}
+
+function filenameFromUrl(remoteUrl: string): string {
+  try {
+    const name = decodeURIComponent(new URL(remoteUrl).pathname.split('/').pop() ?? '');
+    return name || 'remote-image';
+  } catch (e) {
+    return 'remote-image';
+  }
+}
+
+function decodeEntities(value: string): string {
+  return value.replace(/&amp;/g, '&').replace(/&quot;/g, '"').replace(/&#39;/g, "'").replace(/&lt;/g, '<').replace(/&gt;/g, '>');
+}
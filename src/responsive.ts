@@ -0,0 +1,85 @@
+import { parseCloudinaryUrl } from './cloudinary-url';
+import { buildLinkTemplateValues, renderLinkTemplate } from './link-template';
+import type { UploadedAsset } from './provider';
+import { applyTransformation, getDefaultTransformation } from './transformations';
+
+/**
+ * How uploaded images are written in notes: a markdown image, or an HTML `<img>` with a `srcset`
+ * for notes published as a website.
+ */
+export type ImageOutputMode = 'markdown' | 'responsive';
+
+export const DEFAULT_RESPONSIVE_BREAKPOINTS = '480, 800, 1200, 1600';
+export const DEFAULT_RESPONSIVE_SIZES = '(max-width: 800px) 100vw, 800px';
+
+export interface ImageLinkOptions {
+  alt?: string;
+  asset?: Pick<UploadedAsset, 'width' | 'height'>; // upload result, for the width/height attributes
+  mode?: ImageOutputMode; // overrides the global output mode for this insertion
+  transformation?: string; // overrides the default transformation profile (empty string: none)
+  filename?: string; // {filename} of the link template, defaults to the last segment of the URL
+  note?: string; // {note} of the link template: basename of the note receiving the link
+}
+
+/**
+ * Widths of the `srcset` candidates: positive integers, sorted and deduplicated.
+ */
+export function parseBreakpoints(text: string | undefined): number[] {
+  const widths = String(text ?? '')
+    .split(/[\s,;]+/)
+    .map((value) => Number(value.replace(/w$/i, '')))
+    .filter((value) => Number.isInteger(value) && value > 0);
+  return [...new Set(widths)].sort((a, b) => a - b);
+}
+
+/**
+ * Image embed for an uploaded URL in the selected output mode. Markdown mode, and the fallback when the URL
+ * cannot be resized (not a Cloudinary image), use the link template of the settings.
+ */
+export function buildImageLink(url: string, settings: any, options: ImageLinkOptions = {}): string {
+  const alt = options.alt ?? '';
+  const transformation = options.transformation ?? getDefaultTransformation(settings);
+  const mode = options.mode ?? settings?.imageOutputMode;
+  if (mode === 'responsive') {
+    const html = buildResponsiveImage(url, settings, { ...options, alt, transformation });
+    if (html) return html;
+  }
+  const values = { alt, filename: options.filename, note: options.note, width: options.asset?.width, height: options.asset?.height };
+  return renderLinkTemplate(settings?.linkTemplate, buildLinkTemplateValues(applyTransformation(url, transformation), values));
+}
+
+/**
+ * `<img>` with `srcset` candidates resized by Cloudinary (`c_limit,w_<breakpoint>`, after the profile transformation),
+ * `sizes`, and `width`/`height` from the upload result to avoid layout shift.
+ * Breakpoints wider than the original are replaced by the original width, as `c_limit` never upscales.
+ */
+export function buildResponsiveImage(url: string, settings: any, options: ImageLinkOptions = {}): string | undefined {
+  const parts = parseCloudinaryUrl(url);
+  if (!parts || parts.resource_type !== 'image') return undefined;
+
+  const chain = (extra?: string) => [options.transformation, extra].filter(Boolean).join('/');
+  const src = applyTransformation(url, chain());
+  const width = options.asset?.width;
+  const breakpoints = parseBreakpoints(settings?.responsiveBreakpoints ?? DEFAULT_RESPONSIVE_BREAKPOINTS).filter((bp) => !width || bp < width);
+
+  const candidates = breakpoints.map((bp) => `${applyTransformation(url, chain(`c_limit,w_${bp}`))} ${bp}w`);
+  if (width) candidates.push(`${src} ${width}w`);
+
+  const attributes: Array<[string, string | number | undefined]> = [
+    ['src', src],
+    ['srcset', candidates.join(', ') || undefined],
+    ['sizes', candidates.length ? settings?.responsiveSizes || DEFAULT_RESPONSIVE_SIZES : undefined],
+    ['width', width],
+    ['height', width ? options.asset?.height : undefined],
+    ['alt', options.alt ?? ''],
+  ];
+  const html = attributes
+    .filter(([, value]) => value !== undefined && value !== null)
+    .map(([name, value]) => `${name}="${escapeAttribute(String(value))}"`)
+    .join(' ');
+  return `<img ${html}>`;
+}
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
@@ -0,0 +1,221 @@
+import { HttpResponse, sendRequest } from './http';
+import type { UploadedAsset, UploadOptions, UploadProvider } from './provider';
+
+interface S3Settings {
+  endpoint: string; // e.g. https://s3.eu-west-1.amazonaws.com or http://localhost:9000 for MinIO
+  region?: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  prefix?: string; // key prefix ("folder") inside the bucket
+  publicBaseUrl?: string; // base URL used in notes, e.g. a CDN in front of the bucket
+  forcePathStyle?: boolean; // MinIO and most self-hosted servers need path-style URLs
+}
+
+export interface AwsV4SignInput {
+  method: string;
+  url: URL;
+  headers: Record<string, string>;
+  payloadHash: string;
+  region: string;
+  service: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  date?: Date;
+}
+
+export class S3Uploader implements UploadProvider {
+  private settings: S3Settings;
+
+  constructor(settings: S3Settings) {
+    this.settings = settings;
+  }
+
+  describe(): string {
+    return `S3 (${this.settings.bucket})`;
+  }
+
+  /**
+   * Upload a File or Blob with a SigV4 signed PUT. The object key is `<prefix>/<timestamp>-<filename>`
+   * so two pastes with the same name never overwrite each other; it is returned as the asset `public_id`.
+   */
+  async upload(fileOrBlob: File | Blob, filename?: string, options: UploadOptions = {}): Promise<UploadedAsset> {
+    if (!this.settings.endpoint || !this.settings.bucket) throw new Error('S3 uploads require an endpoint and a bucket');
+    if (!this.settings.accessKeyId || !this.settings.secretAccessKey) throw new Error('S3 uploads require an access key and a secret key');
+
+    const name = (fileOrBlob instanceof File ? fileOrBlob.name : filename) || `upload-${Date.now()}.png`;
+    const key = buildObjectKey(this.settings.prefix, `${Date.now()}-${name}`);
+    const body = new Uint8Array(await fileOrBlob.arrayBuffer());
+    const contentType = fileOrBlob.type || 'application/octet-stream';
+
+    const response = await this.send('PUT', key, body, { 'content-type': contentType }, options);
+    if (!response.ok) {
+      throw new Error(`Upload failed: ${response.status} ${await readS3Error(response)}`);
+    }
+
+    return { url: this.publicUrl(key), public_id: key, bytes: body.byteLength };
+  }
+
+  /**
+   * Delete an object. `id` is either the object key or the public URL returned by `upload`.
+   */
+  async delete(id: string): Promise<void> {
+    const key = this.keyFromId(id);
+    const response = await this.send('DELETE', key, new Uint8Array(0), {});
+    // S3 answers 204 for deleted and missing objects alike
+    if (!response.ok) {
+      throw new Error(`Delete failed: ${response.status} ${await readS3Error(response)}`);
+    }
+  }
+
+  private async send(
+    method: string,
+    key: string,
+    body: Uint8Array,
+    extraHeaders: Record<string, string>,
+    options: UploadOptions = {}
+  ): Promise<HttpResponse> {
+    const url = this.objectUrl(key);
+    const payloadHash = await sha256Hex(body);
+    const headers: Record<string, string> = {
+      ...extraHeaders,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': toAmzDate(new Date()),
+    };
+    headers.authorization = await signAwsV4({
+      method,
+      url,
+      headers,
+      payloadHash,
+      region: this.settings.region || 'us-east-1',
+      service: 's3',
+      accessKeyId: this.settings.accessKeyId,
+      secretAccessKey: this.settings.secretAccessKey,
+    });
+
+    return sendRequest({
+      method,
+      url: url.toString(),
+      headers,
+      body: method === 'PUT' ? body : undefined,
+      onProgress: options.onProgress,
+      signal: options.signal,
+    });
+  }
+
+  private objectUrl(key: string): URL {
+    const endpoint = new URL(this.settings.endpoint);
+    const encodedKey = encodeKey(key);
+    const basePath = endpoint.pathname.replace(/\/+$/, '');
+    if (this.settings.forcePathStyle === false) {
+      endpoint.host = `${this.settings.bucket}.${endpoint.host}`;
+      endpoint.pathname = `${basePath}/${encodedKey}`;
+    } else {
+      endpoint.pathname = `${basePath}/${encodeURIComponent(this.settings.bucket)}/${encodedKey}`;
+    }
+    return endpoint;
+  }
+
+  private publicUrl(key: string): string {
+    if (this.settings.publicBaseUrl) {
+      return `${this.settings.publicBaseUrl.replace(/\/+$/, '')}/${encodeKey(key)}`;
+    }
+    return this.objectUrl(key).toString();
+  }
+
+  private keyFromId(id: string): string {
+    if (!/^https?:\/\//i.test(id)) return id.replace(/^\/+/, '');
+    const base = this.settings.publicBaseUrl?.replace(/\/+$/, '');
+    if (base && id.startsWith(`${base}/`)) return decodeURIComponent(id.slice(base.length + 1));
+    const bucketUrl = this.objectUrl('').toString();
+    if (id.startsWith(bucketUrl)) return decodeURIComponent(id.slice(bucketUrl.length));
+    throw new Error(`URL does not belong to bucket ${this.settings.bucket}: ${id}`);
+  }
+}
+
+/**
+ * Compute the `Authorization` header value for an AWS Signature Version 4 request.
+ * Every header in `headers` is signed, plus `host` which is derived from `url`.
+ */
+export async function signAwsV4(input: AwsV4SignInput): Promise<string> {
+  const amzDate = input.headers['x-amz-date'] || toAmzDate(input.date ?? new Date());
+  const dateStamp = amzDate.slice(0, 8);
+
+  const signed: Record<string, string> = { host: input.url.host };
+  for (const [name, value] of Object.entries(input.headers)) {
+    if (name.toLowerCase() === 'authorization') continue;
+    signed[name.toLowerCase()] = String(value).trim().replace(/\s+/g, ' ');
+  }
+  const headerNames = Object.keys(signed).sort();
+  const canonicalHeaders = headerNames.map((name) => `${name}:${signed[name]}\n`).join('');
+  const signedHeaders = headerNames.join(';');
+
+  const query = Array.from(input.url.searchParams.entries())
+    .map(([k, v]) => [encodeRfc3986(k), encodeRfc3986(v)])
+    .sort(([a, av], [b, bv]) => (a === b ? (av < bv ? -1 : 1) : a < b ? -1 : 1))
+    .map(([k, v]) => `${k}=${v}`)
+    .join('&');
+
+  const canonicalRequest = [input.method.toUpperCase(), input.url.pathname || '/', query, canonicalHeaders, signedHeaders, input.payloadHash].join(
+    '\n'
+  );
+
+  const scope = `${dateStamp}/${input.region}/${input.service}/aws4_request`;
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, await sha256Hex(new TextEncoder().encode(canonicalRequest))].join('\n');
+
+  const kDate = await hmacSha256(new TextEncoder().encode(`AWS4${input.secretAccessKey}`), dateStamp);
+  const kRegion = await hmacSha256(kDate, input.region);
+  const kService = await hmacSha256(kRegion, input.service);
+  const kSigning = await hmacSha256(kService, 'aws4_request');
+  const signature = toHex(await hmacSha256(kSigning, stringToSign));
+
+  return `AWS4-HMAC-SHA256 Credential=${input.accessKeyId}/${scope},SignedHeaders=${signedHeaders},Signature=${signature}`;
+}
+
+function buildObjectKey(prefix: string | undefined, name: string): string {
+  const cleanPrefix = String(prefix || '')
+    .replace(/\\/g, '/')
+    .replace(/^\/+|\/+$/g, '');
+  return cleanPrefix ? `${cleanPrefix}/${name}` : name;
+}
+
+function encodeKey(key: string): string {
+  return key.split('/').map(encodeRfc3986).join('/');
+}
+
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function toAmzDate(date: Date): string {
+  return date.toISOString().replace(/[:-]|\.\d{3}/g, '');
+}
+
+async function readS3Error(response: HttpResponse): Promise<string> {
+  const text = await response.text();
+  // S3 errors are XML: <Error><Code>...</Code><Message>...</Message></Error>
+  const message = /<Message>([^<]*)<\/Message>/.exec(text)?.[1];
+  return message || text;
+}
+
+function getSubtle(): SubtleCrypto {
+  const subtle = (globalThis as any).crypto?.subtle;
+  if (!subtle) throw new Error('WebCrypto not available');
+  return subtle as SubtleCrypto;
+}
+
+async function sha256Hex(data: Uint8Array): Promise<string> {
+  return toHex(new Uint8Array(await getSubtle().digest('SHA-256', data)));
+}
+
+async function hmacSha256(key: Uint8Array, message: string): Promise<Uint8Array> {
+  const subtle = getSubtle();
+  const cryptoKey = await subtle.importKey('raw', key, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return new Uint8Array(await subtle.sign('HMAC', cryptoKey, new TextEncoder().encode(message)));
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes)
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
@@ -0,0 +1,48 @@
+/*
+Example Express server signing Cloudinary requests for the plugin "Signing endpoint URL" setting.
+
+Usage:
+  1. Set environment variables: API_KEY, API_SECRET (and optionally PORT)
+     e.g. export API_KEY=abc; export API_SECRET=xyz
+  2. Run: node src/server/signing-server-example.js
+  3. Set "Signing endpoint URL" in the plugin settings to http://localhost:3001/sign
+
+The plugin POSTs { "params_to_sign": { "timestamp": "...", ... } } and expects { signature, timestamp, api_key }.
+Run it only on a trusted machine or behind HTTPS with access restrictions: anyone able to call it can upload to your account.
+*/
+
+const crypto = require('crypto');
+const express = require('express');
+
+const app = express();
+app.use(express.json());
+
+const API_KEY = process.env.API_KEY;
+const API_SECRET = process.env.API_SECRET;
+
+if (!API_KEY || !API_SECRET) {
+  console.warn('Warning: API_KEY and API_SECRET env vars should be set to use this example server.');
+}
+
+app.post('/sign', (req, res) => {
+  if (!API_KEY || !API_SECRET) {
+    return res.status(400).json({ error: 'Missing API_KEY/API_SECRET env vars' });
+  }
+
+  const params = { ...((req.body && req.body.params_to_sign) || {}) };
+  // Never trust the client clock blindly: Cloudinary rejects signatures older than one hour
+  params.timestamp = String(Math.floor(Date.now() / 1000));
+
+  // Cloudinary signature: sorted key=value pairs joined with '&', followed by the secret
+  const toSign = Object.keys(params)
+    .filter((key) => params[key] !== undefined && params[key] !== '')
+    .sort()
+    .map((key) => `${key}=${params[key]}`)
+    .join('&');
+  const signature = crypto.createHash('sha1').update(toSign + API_SECRET).digest('hex');
+
+  return res.json({ signature, timestamp: params.timestamp, api_key: API_KEY });
+});
+
+const port = process.env.PORT || 3001;
+app.listen(port, () => console.log(`Signing server listening on http://localhost:${port}/sign`));
@@ -1,7 +1,10 @@
 import { PluginSettingTab, App, Setting, Notice } from 'obsidian';
 import { CloudinaryHelpModal } from './cloudinary-help-modal';
-import { CloudinaryUploader } from './cloudinary';
+import { CloudinaryUploader, createUnsignedPreset, defaultPresetConfig } from './cloudinary';
+import { PresetWizardModal } from './preset-wizard-modal';
 import { CloudinaryCache } from './cache';
+import { getProviderId, PROVIDER_LABELS, providerCanUpload, ProviderId } from './provider';
+import { parseTransformationProfiles } from './transformations';
 
 export default class CloudinarySettingTab extends PluginSettingTab {
   plugin: any;
@@ -15,216 +18,247 @@ export default class CloudinarySettingTab extends PluginSettingTab {
     const { containerEl } = this;
     containerEl.empty();
 
-    // Cloudinary Settings Header
-    containerEl.createEl('h3', { text: '☁️ Cloudinary Settings' });
+    // Upload provider selection: only the fields of the active provider are displayed
+    containerEl.createEl('h3', { text: '📤 Upload provider' });
 
+    const providerId = getProviderId(this.plugin.settings);
     new Setting(containerEl)
-      .setName('Cloud Name')
-      .setDesc('Your Cloudinary cloud name')
-      .addText((text: any) => {
-        text.inputEl.style.width = '150px';
-        text
-          .setPlaceholder('my-cloud')
-          .setValue(this.plugin.settings.cloudName)
-          .onChange(async (value: string) => {
-            this.plugin.settings.cloudName = value;
-            await this.plugin.saveSettings();
-          });
+      .setName('Provider')
+      .setDesc(
+        'Where uploaded images are stored: Cloudinary, S3-compatible storage (AWS S3, MinIO...), WebDAV (Nextcloud, ownCloud...) or a custom HTTP endpoint. Paste and auto-upload both use the selected provider.'
+      )
+      .addDropdown((dropdown: any) => {
+        for (const [id, label] of Object.entries(PROVIDER_LABELS)) dropdown.addOption(id, label);
+        dropdown.setValue(providerId).onChange(async (value: string) => {
+          this.plugin.settings.provider = value as ProviderId;
+          await this.plugin.saveSettings();
+          // Re-render so only the fields of the newly selected provider are shown
+          this.display();
+        });
       });
 
+    if (providerId === 's3') {
+      this.displayS3Settings(containerEl);
+    } else if (providerId === 'webdav') {
+      this.displayWebDavSettings(containerEl);
+    } else if (providerId === 'custom') {
+      this.displayCustomEndpointSettings(containerEl);
+    } else {
+      this.displayCloudinarySettings(containerEl);
+    }
+
     new Setting(containerEl)
-      .setName('API Key')
-      .setDesc('Your Cloudinary API key (public)')
+      .setName('Auto upload on file add')
+      .setDesc('When enabled, new image files added to the vault will be uploaded automatically with the selected provider.')
+      .addToggle((toggle: any) =>
+        toggle.setValue(!!this.plugin.settings.autoUploadOnFileAdd).onChange(async (value: boolean) => {
+          this.plugin.settings.autoUploadOnFileAdd = value;
+          await this.plugin.saveSettings();
+          // Warn user when enabling Auto Upload but the selected provider cannot authenticate uploads yet
+          if (value && !providerCanUpload(this.plugin.settings)) {
+            new Notice(
+              getProviderId(this.plugin.settings) === 'cloudinary'
+                ? '⚠️ Auto upload enabled but no Upload preset, signing endpoint or API Secret configured. Uploads will fail unless you configure one of them.'
+                : '⚠️ Auto upload enabled but the upload provider is not fully configured. Uploads will fail until its settings are completed.'
+            );
+          }
+        })
+      );
+
+    new Setting(containerEl)
+      .setName('Reference wait (seconds)')
+      .setDesc(
+        'How long a new file waits for a note to link to or embed it before it is left alone. Any note of the vault counts, as found by the metadata cache once the note is saved.'
+      )
       .addText((text: any) => {
-        text.inputEl.style.width = '200px';
+        text.inputEl.style.width = '50px';
         text
-          .setPlaceholder('abc123...')
-          .setValue(this.plugin.settings.apiKey)
+          .setPlaceholder('10')
+          .setValue(String(this.plugin.settings.referenceTimeoutSeconds ?? 10))
           .onChange(async (value: string) => {
-            this.plugin.settings.apiKey = value;
+            const num = Number(value);
+            if (!Number.isFinite(num) || num < 0) {
+              new Notice('Please enter a number of seconds (0 or more)');
+              return;
+            }
+            this.plugin.settings.referenceTimeoutSeconds = num;
             await this.plugin.saveSettings();
           });
       });
 
     new Setting(containerEl)
-      .setName('Cloudinary credentials')
-      .setDesc('Open Cloudinary API Keys to create or view your API credentials')
-      .addButton((btn: any) => {
-        const b = btn
-          .setButtonText('🔗 Open Cloudinary API Keys')
-          .onClick(() => window.open('https://cloudinary.com/console/settings/api-keys', '_blank', 'noopener'));
-        // best-effort styling (some Button objects expose buttonEl)
-        try {
-          (b as any).buttonEl.classList.add('mod-cta');
-        } catch (e) {
-          /* ignore if not available */
-        }
-        return b;
-      });
-
-    // Signed uploads section
-    containerEl.createEl('h3', { text: '🔐 Settings for Signed uploads (not recommended)' });
+      .setName('Show upload progress')
+      .setDesc('Show a persistent notice with the upload progress and a Cancel button. Cancelling leaves the local link in the note untouched.')
+      .addToggle((toggle: any) =>
+        toggle.setValue(this.plugin.settings.showUploadProgress !== false).onChange(async (value: boolean) => {
+          this.plugin.settings.showUploadProgress = value;
+          await this.plugin.saveSettings();
+        })
+      );
 
     new Setting(containerEl)
-      .setName('Allow storing API Secret (not recommended)')
+      .setName('Upload pasted and dropped images')
       .setDesc(
-        'When enabled, you may store your Cloudinary API secret in the plugin (NOT RECOMMENDED). This will enable signed uploads from the plugin.'
+        'Upload images pasted or dropped into a note directly from the clipboard or drag data and insert the link at the cursor or drop position, without saving an attachment in the vault.'
       )
       .addToggle((toggle: any) =>
-        toggle.setValue(!!this.plugin.settings.allowStoreApiSecret).onChange(async (value: boolean) => {
-          this.plugin.settings.allowStoreApiSecret = value;
-          if (!value) {
-            this.plugin.settings.apiSecret = '';
-          }
+        toggle.setValue(!!this.plugin.settings.handleEditorPasteDrop).onChange(async (value: boolean) => {
+          this.plugin.settings.handleEditorPasteDrop = value;
           await this.plugin.saveSettings();
-          if (!value) new Notice('⚠️ Storing API secret is disabled. Use unsigned uploads or server-side signing.');
         })
       );
 
-    let secretText: any;
+    this.addTextSetting(
+      containerEl,
+      'Link template',
+      'Markup of inserted images (markdown output). Placeholders: {url}, {alt}, {filename}, {basename}, {width}, {height}, {date}, {note}',
+      'linkTemplate',
+      '![{alt}]({url})',
+      '300px'
+    );
+
     new Setting(containerEl)
-      .setName('API Secret (Optional)')
+      .setName('Ask for alt text')
+      .setDesc('When pasting or dropping images, ask for the alt text of each image while it uploads.')
+      .addToggle((toggle: any) =>
+        toggle.setValue(!!this.plugin.settings.promptAltText).onChange(async (value: boolean) => {
+          this.plugin.settings.promptAltText = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName('Re-host images pasted from web pages')
       .setDesc(
-        'If you enabled storing API Secret above, enter it here. Storing the secret is dangerous — prefer unsigned uploads or server-side signing.'
+        'When pasted HTML contains remote images, convert it to markdown and have Cloudinary copy each image, so the note links to your own Cloudinary copies instead of third-party hosts. Cloudinary provider only.'
       )
+      .addToggle((toggle: any) =>
+        toggle.setValue(!!this.plugin.settings.rehostPastedImages).onChange(async (value: boolean) => {
+          this.plugin.settings.rehostPastedImages = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName('Parallel uploads')
+      .setDesc('How many images of a multi-image paste or drop are uploaded at the same time.')
       .addText((text: any) => {
-        text.inputEl.style.width = '200px';
+        text.inputEl.style.width = '50px';
         text
-          .setPlaceholder('xyz789...')
-          .setValue(this.plugin.settings.apiSecret)
-          .setDisabled(!this.plugin.settings.allowStoreApiSecret)
+          .setPlaceholder('3')
+          .setValue(String(this.plugin.settings.uploadConcurrency ?? 3))
           .onChange(async (value: string) => {
-            if (!this.plugin.settings.allowStoreApiSecret) {
-              new Notice('Enable "Allow storing API Secret" before entering a secret.');
+            const num = Number(value);
+            if (!Number.isInteger(num) || num <= 0) {
+              new Notice('Please enter a positive whole number of parallel uploads');
               return;
             }
-            this.plugin.settings.apiSecret = value;
+            this.plugin.settings.uploadConcurrency = num;
             await this.plugin.saveSettings();
           });
       });
 
-    // Upload preset settings
-    containerEl.createEl('h3', { text: 'Upload settings' });
+    new Setting(containerEl)
+      .setName('Strip photo metadata')
+      .setDesc(
+        'Before pasted and automatically uploaded PNG/JPEG images are sent, remove their EXIF (camera, device serial numbers, GPS location), XMP and IPTC metadata. The upload notice lists what was removed.'
+      )
+      .addToggle((toggle: any) =>
+        toggle.setValue(!!this.plugin.settings.stripImageMetadata).onChange(async (value: boolean) => {
+          this.plugin.settings.stripImageMetadata = value;
+          await this.plugin.saveSettings();
+        })
+      );
 
-    // Status indicator element
-    const statusRow = containerEl.createDiv({ cls: 'setting-item' });
-    statusRow.createEl('div', { text: 'Auto-upload status:' });
-    const statusEl = statusRow.createDiv({ cls: 'setting-item-control' });
-    const updateStatusIndicator = () => {
-      const hasPreset = !!(this.plugin && this.plugin.settings && this.plugin.settings.uploadPreset);
-      const hasSigned = !!(
-        this.plugin &&
-        this.plugin.settings &&
-        this.plugin.settings.allowStoreApiSecret &&
-        this.plugin.settings.apiKey &&
-        this.plugin.settings.apiSecret
+    new Setting(containerEl)
+      .setName('Keep orientation')
+      .setDesc('Keep the EXIF orientation of stripped photos, so pictures taken with a rotated phone still display upright.')
+      .addToggle((toggle: any) =>
+        toggle.setValue(this.plugin.settings.keepImageOrientation !== false).onChange(async (value: boolean) => {
+          this.plugin.settings.keepImageOrientation = value;
+          await this.plugin.saveSettings();
+        })
       );
-      if (hasPreset || hasSigned) {
-        statusEl.innerText = ' Ready (green)';
-        statusEl.style.color = '#0b8457';
-      } else if (
-        this.plugin &&
-        this.plugin.settings &&
-        this.plugin.settings.allowStoreApiSecret &&
-        (this.plugin.settings.apiKey || this.plugin.settings.apiSecret)
-      ) {
-        statusEl.innerText = ' Partial (yellow) — provide API Key & Secret';
-        statusEl.style.color = '#b8860b';
-      } else {
-        statusEl.innerText = ' Not configured (red) — add Upload preset or API Secret';
-        statusEl.style.color = '#c92c2c';
-      }
-    };
-    // run once to initialize
-    updateStatusIndicator();
 
     new Setting(containerEl)
-      .setName('Upload preset (recommended)')
+      .setName('Resize and re-encode images')
       .setDesc(
-        'Use an unsigned upload preset for unsigned uploads (recommended) or a signed upload preset (you must provide your API Secret) or use a server-side signer. If the plugin cannot create a preset due to CORS, create it manually in the Cloudinary Console or use the example server (Help).'
+        'Before pasted and automatically uploaded PNG/JPEG images are sent, shrink them to the max size below and convert them to the chosen format. The original is kept when the result would be bigger.'
       )
+      .addToggle((toggle: any) =>
+        toggle.setValue(!!this.plugin.settings.processImagesBeforeUpload).onChange(async (value: boolean) => {
+          this.plugin.settings.processImagesBeforeUpload = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName('Max image size (px)')
+      .setDesc('Longest edge of processed images. Smaller images are not upscaled; 0 keeps the original dimensions.')
       .addText((text: any) => {
-        text.inputEl.style.width = '180px';
+        text.inputEl.style.width = '70px';
         text
-          .setPlaceholder('my_unsigned_preset')
-          .setValue(this.plugin.settings.uploadPreset || '')
+          .setPlaceholder('2560')
+          .setValue(String(this.plugin.settings.maxImageDimension ?? 2560))
           .onChange(async (value: string) => {
-            this.plugin.settings.uploadPreset = value;
+            const num = Number(value);
+            if (!Number.isInteger(num) || num < 0) {
+              new Notice('Please enter a whole number of pixels (0 for no limit)');
+              return;
+            }
+            this.plugin.settings.maxImageDimension = num;
             await this.plugin.saveSettings();
-            updateStatusIndicator();
           });
-      })
-      .addButton((btn: any) =>
-        btn
-          .setButtonText('Create unsigned preset (auto)')
-          .setDisabled(!(this.plugin.settings.allowStoreApiSecret && this.plugin.settings.apiKey && this.plugin.settings.apiSecret))
-          .onClick(async () => {
-            try {
-              const uploader = new CloudinaryUploader({
-                cloud_name: this.plugin.settings.cloudName,
-                api_key: this.plugin.settings.apiKey,
-                api_secret: this.plugin.settings.apiSecret,
-              });
-              const name = 'obsidian_auto_unsigned';
-              const res = await uploader.createUploadPreset(name);
-              this.plugin.settings.uploadPreset = (res && res.name) || name;
-              await this.plugin.saveSettings();
-              new Notice(`✅ Created unsigned upload preset '${this.plugin.settings.uploadPreset}'`);
-              updateStatusIndicator();
-            } catch (e: any) {
-              const msg = e instanceof Error ? e.message : String(e);
-              if (/already exists|already/i.test(String(msg))) {
-                this.plugin.settings.uploadPreset = 'obsidian_auto_unsigned';
-                await this.plugin.saveSettings();
-                new Notice(`⚠️ Using existing unsigned upload preset 'obsidian_auto_unsigned'`);
-                updateStatusIndicator();
-              } else {
-                new Notice(`❌ Could not create unsigned preset: ${msg}`);
-                if (this.plugin.settings.debugLogs) console.error('[img_upload] createUploadPreset error', e);
-              }
-            }
-          })
-      );
+      });
 
-    const presetHelp = containerEl.createDiv({ cls: 'setting-item' });
-    const presetHelpText = presetHelp.createEl('div', {
-      text: '⚠️ Note: An upload preset is required for uploads. It can be signed or unsigned (recommended for safety). If the plugin cannot create the unsigned preset via the button above due to CORS error, create it via the Cloudinary Console or use the example server (Help). If you prefer not to use an unsigned preset, you must enable signed uploads or configure a server-side signer.',
-    });
-    presetHelpText.style.fontSize = '0.85em';
-    presetHelpText.style.color = 'var(--text-muted)';
-    const presetHelpRow = presetHelp.createDiv({ cls: 'setting-item-control' });
-    const helpBtn2 = presetHelpRow.createEl('button', { text: 'Learn More' });
-    helpBtn2.addEventListener('click', () => {
-      // eslint-disable-next-line no-new
-      new (CloudinaryHelpModal as any)(this.app).open();
-    });
-    presetHelpRow.createEl('span', { text: ' ' });
-    const serverBtn2 = presetHelpRow.createEl('button', { text: 'Create via example server' });
-    serverBtn2.addEventListener('click', () => {
-      // eslint-disable-next-line no-new
-      new (CloudinaryHelpModal as any)(this.app).open();
-    });
+    new Setting(containerEl)
+      .setName('Re-encode format')
+      .setDesc('Output format of processed images. WebP is usually the smallest; JPEG drops transparency.')
+      .addDropdown((dropdown: any) => {
+        dropdown.addOption('original', 'Keep original format');
+        dropdown.addOption('webp', 'WebP');
+        dropdown.addOption('jpeg', 'JPEG');
+        dropdown.setValue(this.plugin.settings.reencodeFormat || 'original').onChange(async (value: string) => {
+          this.plugin.settings.reencodeFormat = value;
+          await this.plugin.saveSettings();
+        });
+      });
 
     new Setting(containerEl)
-      .setName('Auto upload on file add')
-      .setDesc('When enabled, new image files added to the vault will be uploaded automatically to Cloudinary.')
+      .setName('Re-encode quality')
+      .setDesc('Quality of WebP and JPEG output, from 1 to 100.')
+      .addText((text: any) => {
+        text.inputEl.style.width = '50px';
+        text
+          .setPlaceholder('85')
+          .setValue(String(this.plugin.settings.reencodeQuality ?? 85))
+          .onChange(async (value: string) => {
+            const num = Number(value);
+            if (!Number.isInteger(num) || num < 1 || num > 100) {
+              new Notice('Please enter a quality between 1 and 100');
+              return;
+            }
+            this.plugin.settings.reencodeQuality = num;
+            await this.plugin.saveSettings();
+          });
+      });
+
+    new Setting(containerEl)
+      .setName('Queue failed uploads')
+      .setDesc(
+        'When an automatic upload fails (offline, server error...), keep the local link and retry later with increasing delays, on network recovery and at startup. Use the "Show upload queue" command to retry or drop items.'
+      )
       .addToggle((toggle: any) =>
-        toggle.setValue(!!this.plugin.settings.autoUploadOnFileAdd).onChange(async (value: boolean) => {
-          this.plugin.settings.autoUploadOnFileAdd = value;
+        toggle.setValue(this.plugin.settings.queueFailedUploads !== false).onChange(async (value: boolean) => {
+          this.plugin.settings.queueFailedUploads = value;
           await this.plugin.saveSettings();
-          // Warn user when enabling Auto Upload but neither upload preset nor signed credentials are configured
-          if (value && !this.plugin.settings.uploadPreset && !(this.plugin.settings.allowStoreApiSecret && this.plugin.settings.apiSecret)) {
-            new Notice(
-              '⚠️ Auto upload enabled but no Upload preset or API Secret configured. Uploads will fail unless you add an upload preset or set an API Secret.'
-            );
-          }
         })
       );
 
     // Short note under Auto upload to clarify scope
     new Setting(containerEl)
       .setName('Max auto-upload size (MB)')
-      .setDesc('Maximum file size (in MB) allowed for automatic uploads. Files larger will not be uploaded automatically.')
+      .setDesc('Maximum file size (in MB) allowed for automatic uploads. Files larger will not be uploaded automatically, unless "Upload large files anyway" is enabled.')
       .addText((text: any) => {
         text.inputEl.style.width = '50px';
         text
@@ -241,6 +275,23 @@ export default class CloudinarySettingTab extends PluginSettingTab {
           });
       });
 
+    new Setting(containerEl)
+      .setName('Upload large files anyway')
+      .setDesc('Turn the size limit into a warning: larger files are still uploaded. Cloudinary uploads above 20 MB are sent in 6 MB chunks, retried individually on network errors.')
+      .addToggle((toggle: any) =>
+        toggle.setValue(!!this.plugin.settings.uploadLargeFiles).onChange(async (value: boolean) => {
+          this.plugin.settings.uploadLargeFiles = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    // Media types: which extensions go through the upload pipeline, and the embed inserted for each
+    containerEl.createEl('h3', { text: 'Media types' });
+    this.addTextSetting(containerEl, 'Image extensions', 'Comma separated, embedded as ![](url)', 'imageExtensions', 'png, jpg, jpeg, gif, webp, svg', '300px');
+    this.addTextSetting(containerEl, 'Video extensions', 'Comma separated, embedded as <video controls>', 'videoExtensions', 'mp4, webm, mov', '300px');
+    this.addTextSetting(containerEl, 'Audio extensions', 'Comma separated, embedded as <audio controls>', 'audioExtensions', 'mp3, wav, ogg, m4a', '300px');
+    this.addTextSetting(containerEl, 'Document extensions', 'Comma separated, inserted as a link to the file', 'documentExtensions', 'pdf', '300px');
+
     // Others
     containerEl.createEl('h3', { text: 'Others settings' });
 
@@ -362,4 +413,447 @@ export default class CloudinarySettingTab extends PluginSettingTab {
       text: this.plugin.getBuildString(),
     });
   }
+
+  private addTextSetting(containerEl: any, name: string, desc: string, key: string, placeholder: string, width = '250px') {
+    return new Setting(containerEl)
+      .setName(name)
+      .setDesc(desc)
+      .addText((text: any) => {
+        text.inputEl.style.width = width;
+        text
+          .setPlaceholder(placeholder)
+          .setValue(this.plugin.settings[key] || '')
+          .onChange(async (value: string) => {
+            this.plugin.settings[key] = value.trim();
+            await this.plugin.saveSettings();
+          });
+      });
+  }
+
+  private displayS3Settings(containerEl: any): void {
+    containerEl.createEl('h3', { text: '🪣 S3-compatible storage' });
+
+    this.addTextSetting(
+      containerEl,
+      'Endpoint',
+      'S3 API endpoint, e.g. https://s3.eu-west-1.amazonaws.com or http://localhost:9000 for MinIO',
+      's3Endpoint',
+      'https://s3.amazonaws.com',
+      '300px'
+    );
+    this.addTextSetting(containerEl, 'Region', 'Region used for request signing (MinIO accepts the default us-east-1)', 's3Region', 'us-east-1', '150px');
+    this.addTextSetting(containerEl, 'Bucket', 'Bucket receiving the uploads', 's3Bucket', 'my-bucket', '200px');
+    this.addTextSetting(containerEl, 'Key prefix', 'Optional folder inside the bucket, e.g. obsidian/images', 's3Prefix', 'obsidian/images');
+    this.addTextSetting(
+      containerEl,
+      'Public base URL',
+      'Base URL inserted in notes (CDN or public bucket URL). Leave empty to use the endpoint URL of the object.',
+      's3PublicBaseUrl',
+      'https://cdn.example.com',
+      '300px'
+    );
+
+    new Setting(containerEl)
+      .setName('Path-style URLs')
+      .setDesc('Use <endpoint>/<bucket>/<key> instead of <bucket>.<endpoint>/<key>. Required by MinIO and most self-hosted servers.')
+      .addToggle((toggle: any) =>
+        toggle.setValue(this.plugin.settings.s3ForcePathStyle !== false).onChange(async (value: boolean) => {
+          this.plugin.settings.s3ForcePathStyle = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    this.addTextSetting(containerEl, 'Access key ID', 'Access key of a user allowed to put objects in the bucket', 's3AccessKeyId', 'AKIA...');
+    this.addTextSetting(
+      containerEl,
+      'Secret access key',
+      'Stored in the plugin data. Prefer a dedicated key restricted to this bucket (put/delete only).',
+      's3SecretAccessKey',
+      'secret'
+    );
+
+    containerEl.createEl('h3', { text: 'Upload settings' });
+  }
+
+  private displayWebDavSettings(containerEl: any): void {
+    containerEl.createEl('h3', { text: '🗄️ WebDAV storage' });
+
+    this.addTextSetting(
+      containerEl,
+      'Server URL',
+      'WebDAV collection URL, e.g. https://cloud.example.com/remote.php/dav/files/alice for Nextcloud',
+      'webdavUrl',
+      'https://cloud.example.com/remote.php/dav/files/alice',
+      '300px'
+    );
+    this.addTextSetting(containerEl, 'Upload folder', 'Folder inside the collection receiving uploads; missing folders are created', 'webdavFolder', 'obsidian');
+    this.addTextSetting(
+      containerEl,
+      'Public URL prefix',
+      'Public URL of the upload folder (share link, reverse proxy...). The file name is appended to it in the inserted link. Leave empty to insert the WebDAV URL.',
+      'webdavPublicUrlPrefix',
+      'https://cloud.example.com/s/AbCdEf/download?path=%2F&files=',
+      '300px'
+    );
+    this.addTextSetting(containerEl, 'Username', 'Basic auth user (leave empty for anonymous servers)', 'webdavUsername', 'alice', '200px');
+    this.addTextSetting(
+      containerEl,
+      'Password',
+      'Basic auth password. Prefer a Nextcloud app password: it is stored in the plugin data.',
+      'webdavPassword',
+      'app-password',
+      '200px'
+    );
+
+    containerEl.createEl('h3', { text: 'Upload settings' });
+  }
+
+  private displayCustomEndpointSettings(containerEl: any): void {
+    containerEl.createEl('h3', { text: '🌐 Custom HTTP endpoint' });
+    containerEl.createEl('p', {
+      text: 'Any service accepting a multipart POST and answering JSON (Imgur, self-hosted image hosts, internal services...).',
+      cls: 'setting-item-description',
+    });
+
+    this.addTextSetting(containerEl, 'Upload URL', 'Endpoint receiving the multipart POST', 'customUploadUrl', 'https://api.imgur.com/3/image', '300px');
+    this.addTextSetting(containerEl, 'File field name', 'Name of the multipart field holding the file', 'customFileField', 'file', '120px');
+    this.addTextSetting(
+      containerEl,
+      'Response URL path',
+      'Dotted path to the final URL in the JSON response, e.g. data.link or files[0].url',
+      'customResponseUrlPath',
+      'data.link',
+      '200px'
+    );
+
+    const textAreaSetting = (name: string, desc: string, key: string, placeholder: string) =>
+      new Setting(containerEl)
+        .setName(name)
+        .setDesc(desc)
+        .addTextArea((text: any) => {
+          text.inputEl.style.width = '300px';
+          text.inputEl.rows = 3;
+          text
+            .setPlaceholder(placeholder)
+            .setValue(this.plugin.settings[key] || '')
+            .onChange(async (value: string) => {
+              this.plugin.settings[key] = value;
+              await this.plugin.saveSettings();
+            });
+        });
+
+    textAreaSetting('Extra form fields', 'One name=value per line, sent along with the file', 'customExtraFields', 'album=notes\ntype=file');
+    textAreaSetting(
+      'Headers',
+      'One Name: value per line, e.g. an Authorization header. Stored in the plugin data.',
+      'customHeaders',
+      'Authorization: Client-ID abc123'
+    );
+
+    containerEl.createEl('h3', { text: 'Upload settings' });
+  }
+
+  private displayCloudinarySettings(containerEl: any): void {
+    // Cloudinary Settings Header
+    containerEl.createEl('h3', { text: '☁️ Cloudinary Settings' });
+
+    new Setting(containerEl)
+      .setName('Cloud Name')
+      .setDesc('Your Cloudinary cloud name')
+      .addText((text: any) => {
+        text.inputEl.style.width = '150px';
+        text
+          .setPlaceholder('my-cloud')
+          .setValue(this.plugin.settings.cloudName)
+          .onChange(async (value: string) => {
+            this.plugin.settings.cloudName = value;
+            await this.plugin.saveSettings();
+          });
+      });
+
+    new Setting(containerEl)
+      .setName('API Key')
+      .setDesc('Your Cloudinary API key (public)')
+      .addText((text: any) => {
+        text.inputEl.style.width = '200px';
+        text
+          .setPlaceholder('abc123...')
+          .setValue(this.plugin.settings.apiKey)
+          .onChange(async (value: string) => {
+            this.plugin.settings.apiKey = value;
+            await this.plugin.saveSettings();
+          });
+      });
+
+    new Setting(containerEl)
+      .setName('Cloudinary credentials')
+      .setDesc('Open Cloudinary API Keys to create or view your API credentials')
+      .addButton((btn: any) => {
+        const b = btn
+          .setButtonText('🔗 Open Cloudinary API Keys')
+          .onClick(() => window.open('https://cloudinary.com/console/settings/api-keys', '_blank', 'noopener'));
+        // best-effort styling (some Button objects expose buttonEl)
+        try {
+          (b as any).buttonEl.classList.add('mod-cta');
+        } catch (e) {
+          /* ignore if not available */
+        }
+        return b;
+      });
+
+    // Remote signing: signed uploads without storing the secret in the plugin
+    containerEl.createEl('h3', { text: '🖋️ Remote signing endpoint' });
+
+    new Setting(containerEl)
+      .setName('Signing endpoint URL')
+      .setDesc(
+        'URL of your own server signing upload parameters (see the README example). The plugin POSTs the parameters to sign and performs a signed upload with the returned signature, timestamp and API key: the API secret never lives in the plugin data.'
+      )
+      .addText((text: any) => {
+        text.inputEl.style.width = '300px';
+        text
+          .setPlaceholder('https://sign.example.com/sign')
+          .setValue(this.plugin.settings.signatureEndpoint || '')
+          .onChange(async (value: string) => {
+            this.plugin.settings.signatureEndpoint = value.trim();
+            await this.plugin.saveSettings();
+            updateStatusIndicator();
+          });
+      });
+
+    // Signed uploads section
+    containerEl.createEl('h3', { text: '🔐 Settings for Signed uploads (not recommended)' });
+
+    new Setting(containerEl)
+      .setName('Allow storing API Secret (not recommended)')
+      .setDesc(
+        'When enabled, you may store your Cloudinary API secret in the plugin (NOT RECOMMENDED). This will enable signed uploads from the plugin.'
+      )
+      .addToggle((toggle: any) =>
+        toggle.setValue(!!this.plugin.settings.allowStoreApiSecret).onChange(async (value: boolean) => {
+          this.plugin.settings.allowStoreApiSecret = value;
+          if (!value) {
+            this.plugin.settings.apiSecret = '';
+          }
+          await this.plugin.saveSettings();
+          if (!value) new Notice('⚠️ Storing API secret is disabled. Use unsigned uploads or server-side signing.');
+        })
+      );
+
+    let secretText: any;
+    new Setting(containerEl)
+      .setName('API Secret (Optional)')
+      .setDesc(
+        'If you enabled storing API Secret above, enter it here. Storing the secret is dangerous — prefer unsigned uploads or server-side signing.'
+      )
+      .addText((text: any) => {
+        text.inputEl.style.width = '200px';
+        text
+          .setPlaceholder('xyz789...')
+          .setValue(this.plugin.settings.apiSecret)
+          .setDisabled(!this.plugin.settings.allowStoreApiSecret)
+          .onChange(async (value: string) => {
+            if (!this.plugin.settings.allowStoreApiSecret) {
+              new Notice('Enable "Allow storing API Secret" before entering a secret.');
+              return;
+            }
+            this.plugin.settings.apiSecret = value;
+            await this.plugin.saveSettings();
+          });
+      });
+
+    // Upload preset settings
+    containerEl.createEl('h3', { text: 'Upload settings' });
+
+    // Status indicator element
+    const statusRow = containerEl.createDiv({ cls: 'setting-item' });
+    statusRow.createEl('div', { text: 'Auto-upload status:' });
+    const statusEl = statusRow.createDiv({ cls: 'setting-item-control' });
+    const updateStatusIndicator = () => {
+      const hasPreset = !!(this.plugin && this.plugin.settings && this.plugin.settings.uploadPreset);
+      const hasSigned = !!(
+        this.plugin &&
+        this.plugin.settings &&
+        this.plugin.settings.allowStoreApiSecret &&
+        this.plugin.settings.apiKey &&
+        this.plugin.settings.apiSecret
+      );
+      const hasSigningEndpoint = !!(this.plugin && this.plugin.settings && this.plugin.settings.signatureEndpoint);
+      if (hasPreset || hasSigned || hasSigningEndpoint) {
+        statusEl.innerText = ' Ready (green)';
+        statusEl.style.color = '#0b8457';
+      } else if (
+        this.plugin &&
+        this.plugin.settings &&
+        this.plugin.settings.allowStoreApiSecret &&
+        (this.plugin.settings.apiKey || this.plugin.settings.apiSecret)
+      ) {
+        statusEl.innerText = ' Partial (yellow) — provide API Key & Secret';
+        statusEl.style.color = '#b8860b';
+      } else {
+        statusEl.innerText = ' Not configured (red) — add Upload preset, signing endpoint or API Secret';
+        statusEl.style.color = '#c92c2c';
+      }
+    };
+    // run once to initialize
+    updateStatusIndicator();
+
+    new Setting(containerEl)
+      .setName('Upload preset (recommended)')
+      .setDesc(
+        'Use an unsigned upload preset for unsigned uploads (recommended) or a signed upload preset (you must provide your API Secret) or use a server-side signer. If the plugin cannot create a preset due to CORS, create it manually in the Cloudinary Console or use the example server (Help).'
+      )
+      .addText((text: any) => {
+        text.inputEl.style.width = '180px';
+        text
+          .setPlaceholder('my_unsigned_preset')
+          .setValue(this.plugin.settings.uploadPreset || '')
+          .onChange(async (value: string) => {
+            this.plugin.settings.uploadPreset = value;
+            await this.plugin.saveSettings();
+            updateStatusIndicator();
+          });
+      })
+      .addButton((btn: any) =>
+        btn
+          .setButtonText('Create unsigned preset (auto)')
+          .setDisabled(!(this.plugin.settings.allowStoreApiSecret && this.plugin.settings.apiKey && this.plugin.settings.apiSecret))
+          .onClick(async () => {
+            try {
+              const uploader = new CloudinaryUploader({
+                cloud_name: this.plugin.settings.cloudName,
+                api_key: this.plugin.settings.apiKey,
+                api_secret: this.plugin.settings.apiSecret,
+              });
+              const config = defaultPresetConfig(this.plugin.settings);
+              const status = await createUnsignedPreset(uploader, config);
+              this.plugin.settings.uploadPreset = config.name;
+              await this.plugin.saveSettings();
+              const notices = {
+                created: `✅ Created unsigned upload preset '${config.name}'`,
+                existing: `⚠️ Using existing unsigned upload preset '${config.name}' (use the preset wizard to inspect or update it)`,
+                updated: `⚠️ Preset '${config.name}' already existed as a signed preset: it was made unsigned with the plugin restrictions`,
+              };
+              new Notice(notices[status]);
+              updateStatusIndicator();
+            } catch (e: any) {
+              const msg = e instanceof Error ? e.message : String(e);
+              new Notice(`❌ Could not create unsigned preset: ${msg}`);
+              if (this.plugin.settings.debugLogs) console.error('[img_upload] createUploadPreset error', e);
+            }
+          })
+      )
+      .addButton((btn: any) =>
+        btn
+          .setButtonText('Preset wizard…')
+          .setDisabled(!(this.plugin.settings.allowStoreApiSecret && this.plugin.settings.apiKey && this.plugin.settings.apiSecret))
+          .onClick(() => {
+            const uploader = new CloudinaryUploader({
+              cloud_name: this.plugin.settings.cloudName,
+              api_key: this.plugin.settings.apiKey,
+              api_secret: this.plugin.settings.apiSecret,
+            });
+            new PresetWizardModal(this.app, uploader, this.plugin.settings, async (name: string) => {
+              this.plugin.settings.uploadPreset = name;
+              await this.plugin.saveSettings();
+              this.display();
+            }).open();
+          })
+      );
+
+    this.addTextSetting(
+      containerEl,
+      'Upload folder',
+      'Cloudinary folder receiving uploads, e.g. obsidian/notes. Leave empty to use the preset folder (or the root).',
+      'cloudinaryFolder',
+      'obsidian',
+      '200px'
+    );
+    this.addTextSetting(
+      containerEl,
+      'Folder template',
+      'Subfolder of the upload folder, e.g. {note_folder}/{yyyy}/{mm}. Placeholders: {note_folder}, {note}, {filename}, {ext}, {hash}, {yyyy}, {mm}, {dd}',
+      'folderTemplate',
+      '{note_folder}/{note}',
+      '200px'
+    );
+    this.addTextSetting(
+      containerEl,
+      'Public ID template',
+      'Name of uploaded assets, e.g. {filename} or {hash}. Names are slugified and never overwrite an existing asset (-2, -3... are appended). Leave empty for random IDs.',
+      'publicIdTemplate',
+      '{filename}',
+      '200px'
+    );
+    this.addTextSetting(containerEl, 'Tags', 'Comma separated tags added to every upload, e.g. obsidian,notes', 'cloudinaryTags', 'obsidian', '200px');
+    new Setting(containerEl)
+      .setName('Auto-detect resource type')
+      .setDesc('Upload every file to the `auto` endpoint and let Cloudinary pick image, video or raw. When off, the type follows the media type lists below (audio is stored as video, documents as raw).')
+      .addToggle((toggle: any) =>
+        toggle.setValue(!!this.plugin.settings.cloudinaryAutoResourceType).onChange(async (value: boolean) => {
+          this.plugin.settings.cloudinaryAutoResourceType = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName('Transformation profiles')
+      .setDesc('One name = transformation per line, injected after /upload/ in inserted links. The shared cache keeps the original URL.')
+      .addTextArea((text: any) => {
+        text.inputEl.style.width = '300px';
+        text.inputEl.rows = 3;
+        text
+          .setPlaceholder('Note width = w_800,c_limit,f_auto,q_auto')
+          .setValue(this.plugin.settings.transformationProfiles || '')
+          .onChange(async (value: string) => {
+            this.plugin.settings.transformationProfiles = value;
+            await this.plugin.saveSettings();
+          });
+        // Refresh the default profile choices once editing is done
+        text.inputEl.addEventListener('blur', () => this.display());
+      });
+    new Setting(containerEl)
+      .setName('Default transformation profile')
+      .setDesc('Applied to every inserted Cloudinary link. "Paste image to Cloudinary with transformation profile" picks one per paste.')
+      .addDropdown((dropdown: any) => {
+        dropdown.addOption('', 'None (original URL)');
+        for (const profile of parseTransformationProfiles(this.plugin.settings.transformationProfiles)) dropdown.addOption(profile.name, profile.name);
+        dropdown.setValue(this.plugin.settings.defaultTransformationProfile || '').onChange(async (value: string) => {
+          this.plugin.settings.defaultTransformationProfile = value;
+          await this.plugin.saveSettings();
+        });
+      });
+    new Setting(containerEl)
+      .setName('Image output')
+      .setDesc('How uploaded images are written in notes. Responsive images are HTML <img> tags with a srcset, for notes published as a website.')
+      .addDropdown((dropdown: any) => {
+        dropdown.addOption('markdown', 'Markdown image ![](url)');
+        dropdown.addOption('responsive', 'Responsive <img srcset>');
+        dropdown.setValue(this.plugin.settings.imageOutputMode || 'markdown').onChange(async (value: string) => {
+          this.plugin.settings.imageOutputMode = value;
+          await this.plugin.saveSettings();
+        });
+      });
+    this.addTextSetting(containerEl, 'Responsive breakpoints', 'Comma separated widths (px) of the srcset candidates', 'responsiveBreakpoints', '480, 800, 1200, 1600', '200px');
+    this.addTextSetting(containerEl, 'Responsive sizes', 'sizes attribute of responsive images', 'responsiveSizes', '(max-width: 800px) 100vw, 800px', '300px');
+
+    const presetHelp = containerEl.createDiv({ cls: 'setting-item' });
+    const presetHelpText = presetHelp.createEl('div', {
+      text: '⚠️ Note: An upload preset is required for uploads. It can be signed or unsigned (recommended for safety). If the plugin cannot create the unsigned preset via the button above due to CORS error, create it via the Cloudinary Console or use the example server (Help). If you prefer not to use an unsigned preset, you must enable signed uploads or configure a server-side signer.',
+    });
+    presetHelpText.style.fontSize = '0.85em';
+    presetHelpText.style.color = 'var(--text-muted)';
+    const presetHelpRow = presetHelp.createDiv({ cls: 'setting-item-control' });
+    const helpBtn2 = presetHelpRow.createEl('button', { text: 'Learn More' });
+    helpBtn2.addEventListener('click', () => {
+      // eslint-disable-next-line no-new
+      new (CloudinaryHelpModal as any)(this.app).open();
+    });
+    presetHelpRow.createEl('span', { text: ' ' });
+    const serverBtn2 = presetHelpRow.createEl('button', { text: 'Create via example server' });
+    serverBtn2.addEventListener('click', () => {
+      // eslint-disable-next-line no-new
+      new (CloudinaryHelpModal as any)(this.app).open();
+    });
+  }
 }
@@ -0,0 +1,114 @@
+import { App, Modal, Setting } from 'obsidian';
+import { buildEditedUrl, TransformationEditRequest } from './edit-transformation';
+import type { TransformationFields } from './transformations';
+
+const CROP_MODES = ['', 'fill', 'fit', 'limit', 'scale', 'thumb', 'crop', 'pad', 'lfill'];
+const QUALITIES = ['', 'auto', 'auto:best', 'auto:good', 'auto:eco', 'auto:low'];
+const FORMATS = ['', 'auto', 'webp', 'avif', 'jpg', 'png'];
+
+/**
+ * Edit width, height, crop, quality, format and rotation of a Cloudinary link, with a live preview of the rebuilt URL.
+ */
+export class TransformationEditorModal extends Modal {
+  private readonly request: TransformationEditRequest;
+  private readonly fields: TransformationFields;
+  private resolve?: (fields: TransformationFields | undefined) => void;
+  private preview?: HTMLImageElement;
+  private urlEl?: HTMLElement;
+
+  constructor(app: App, request: TransformationEditRequest) {
+    super(app);
+    this.request = request;
+    this.fields = { ...request.fields };
+  }
+
+  /** Open the modal and resolve with the edited fields, or undefined when dismissed. */
+  prompt(): Promise<TransformationFields | undefined> {
+    return new Promise((resolve) => {
+      this.resolve = resolve;
+      this.open();
+    });
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    const { parts } = this.request;
+    contentEl.createEl('h3', { text: 'Edit Cloudinary transformation' });
+    contentEl.createEl('p', {
+      text: `${parts.cloud_name} · ${parts.public_id}${parts.version !== null ? ` · v${parts.version}` : ''}`,
+      cls: 'setting-item-description',
+    });
+    if (this.request.rest) {
+      contentEl.createEl('p', { text: `Kept as is: ${this.request.rest}`, cls: 'setting-item-description' });
+    }
+
+    this.addTextField('Width', 'Pixels, or a ratio like 0.5', 'width');
+    this.addTextField('Height', 'Pixels, or a ratio like 0.5', 'height');
+    this.addDropdownField('Crop', 'How the image fits the width and height', 'crop', CROP_MODES);
+    this.addDropdownField('Quality', 'auto picks the best size/quality balance', 'quality', QUALITIES);
+    this.addDropdownField('Format', 'auto serves WebP/AVIF to browsers supporting them', 'format', FORMATS);
+    this.addTextField('Rotation', 'Degrees, or auto_right / auto_left', 'angle');
+
+    this.preview = contentEl.createEl('img');
+    this.preview.style.maxWidth = '100%';
+    this.preview.style.maxHeight = '300px';
+    this.urlEl = contentEl.createEl('p', { cls: 'setting-item-description' });
+    this.urlEl.style.wordBreak = 'break-all';
+    this.updatePreview();
+
+    const row = contentEl.createDiv({ cls: 'setting-item' });
+    const applyBtn = row.createEl('button', { text: 'Apply', cls: 'mod-cta' });
+    applyBtn.addEventListener('click', () => this.finish({ ...this.fields }));
+    const cancelBtn = row.createEl('button', { text: 'Cancel' });
+    cancelBtn.addEventListener('click', () => this.finish(undefined));
+  }
+
+  onClose() {
+    this.contentEl.empty();
+    // Closing with Escape or the X button cancels
+    this.resolve?.(undefined);
+    this.resolve = undefined;
+  }
+
+  private addTextField(name: string, desc: string, field: keyof TransformationFields) {
+    new Setting(this.contentEl)
+      .setName(name)
+      .setDesc(desc)
+      .addText((text: any) => {
+        text.inputEl.style.width = '120px';
+        text.setValue(this.fields[field]).onChange((value: string) => {
+          this.fields[field] = value.trim();
+          this.updatePreview();
+        });
+      });
+  }
+
+  private addDropdownField(name: string, desc: string, field: keyof TransformationFields, options: string[]) {
+    const current = this.fields[field];
+    new Setting(this.contentEl)
+      .setName(name)
+      .setDesc(desc)
+      .addDropdown((dropdown: any) => {
+        // Keep values typed by hand in the URL selectable
+        for (const option of current && !options.includes(current) ? [...options, current] : options) {
+          dropdown.addOption(option, option || '(none)');
+        }
+        dropdown.setValue(current).onChange((value: string) => {
+          this.fields[field] = value;
+          this.updatePreview();
+        });
+      });
+  }
+
+  private updatePreview() {
+    const url = buildEditedUrl(this.request.parts, this.fields, this.request.url);
+    if (this.preview) this.preview.src = url;
+    this.urlEl?.setText(url);
+  }
+
+  private finish(fields: TransformationFields | undefined) {
+    this.resolve?.(fields);
+    this.resolve = undefined;
+    this.close();
+  }
+}
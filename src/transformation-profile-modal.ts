@@ -0,0 +1,50 @@
+import { App, Modal } from 'obsidian';
+import type { TransformationProfile } from './transformations';
+
+/**
+ * Pick the transformation profile of the next inserted link. "Original" resolves with an empty transformation.
+ */
+export class TransformationProfileModal extends Modal {
+  private readonly profiles: TransformationProfile[];
+  private resolve?: (profile: TransformationProfile | undefined) => void;
+
+  constructor(app: App, profiles: TransformationProfile[]) {
+    super(app);
+    this.profiles = profiles;
+  }
+
+  /** Open the modal and resolve with the chosen profile, or undefined when dismissed. */
+  prompt(): Promise<TransformationProfile | undefined> {
+    return new Promise((resolve) => {
+      this.resolve = resolve;
+      this.open();
+    });
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.createEl('h3', { text: 'Transformation profile' });
+
+    for (const profile of [{ name: 'Original', transformation: '' }, ...this.profiles]) {
+      const row = contentEl.createDiv({ cls: 'setting-item' });
+      const info = row.createDiv({ cls: 'setting-item-info' });
+      info.createDiv({ cls: 'setting-item-name', text: profile.name });
+      info.createDiv({ cls: 'setting-item-description', text: profile.transformation || 'No transformation' });
+      const chooseBtn = row.createDiv({ cls: 'setting-item-control' }).createEl('button', { text: 'Paste' });
+      chooseBtn.addEventListener('click', () => this.finish(profile));
+    }
+  }
+
+  onClose() {
+    this.contentEl.empty();
+    // Closing with Escape or the X button cancels
+    this.resolve?.(undefined);
+    this.resolve = undefined;
+  }
+
+  private finish(profile: TransformationProfile) {
+    this.resolve?.(profile);
+    this.resolve = undefined;
+    this.close();
+  }
+}
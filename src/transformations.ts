@@ -0,0 +1,142 @@
+import { parseCloudinaryUrl } from './cloudinary-url';
+import { parseKeyValueLines } from './custom-endpoint';
+
+/**
+ * Named delivery transformation, e.g. "Note width" = `w_800,c_limit,f_auto,q_auto`.
+ * Profiles only change the inserted link: the shared cache keeps the original `secure_url`.
+ */
+export interface TransformationProfile {
+  name: string;
+  transformation: string;
+}
+
+export const DEFAULT_TRANSFORMATION_PROFILES = 'Note width = w_800,c_limit,f_auto,q_auto\nThumbnail = w_300,h_300,c_fill,g_auto,f_auto,q_auto';
+
+/**
+ * Parse the profiles setting: one `name = transformation` per line.
+ */
+export function parseTransformationProfiles(text: string | undefined): TransformationProfile[] {
+  return Object.entries(parseKeyValueLines(text, '='))
+    .map(([name, transformation]) => ({ name, transformation: transformation.replace(/^\/+|\/+$/g, '') }))
+    .filter((profile) => profile.transformation);
+}
+
+/**
+ * Transformation of the default profile, or undefined when none is selected (or it no longer exists).
+ */
+export function getDefaultTransformation(settings: any): string | undefined {
+  const name = settings?.defaultTransformationProfile;
+  if (!name) return undefined;
+  return parseTransformationProfiles(settings.transformationProfiles).find((profile) => profile.name === name)?.transformation;
+}
+
+/**
+ * Insert `transformation` after `/upload/` in a Cloudinary delivery URL, before any transformation already there.
+ * Other URLs and raw files (which Cloudinary cannot transform) are returned unchanged.
+ */
+export function applyTransformation(url: string, transformation: string | undefined): string {
+  const clean = String(transformation ?? '')
+    .trim()
+    .replace(/^\/+|\/+$/g, '');
+  const parts = clean ? parseCloudinaryUrl(url) : undefined;
+  if (!parts || parts.resource_type === 'raw') return url;
+  const marker = `/${parts.resource_type}/${parts.type}/`;
+  return url.replace(marker, `${marker}${clean}/`);
+}
+
+export function applyDefaultTransformation(url: string, settings: any): string {
+  return applyTransformation(url, getDefaultTransformation(settings));
+}
+
+/**
+ * Transformation parameters edited in the transformation editor, as Cloudinary values (`800`, `fill`, `auto`...).
+ * Empty strings mean "not set".
+ */
+export interface TransformationFields {
+  width: string;
+  height: string;
+  crop: string;
+  quality: string;
+  format: string;
+  angle: string;
+}
+
+const FIELD_KEYS: Record<keyof TransformationFields, string> = {
+  width: 'w',
+  height: 'h',
+  crop: 'c',
+  quality: 'q',
+  format: 'f',
+  angle: 'a',
+};
+
+export const EMPTY_TRANSFORMATION_FIELDS: TransformationFields = { width: '', height: '', crop: '', quality: '', format: '', angle: '' };
+
+const KEY_TO_FIELD = new Map(Object.entries(FIELD_KEYS).map(([field, key]) => [key, field as keyof TransformationFields]));
+
+/**
+ * Split a transformation chain into the editable fields and the rest of the chain (effects, overlays...),
+ * which is kept as is. When a parameter appears in several components, the last value is kept.
+ */
+export function parseTransformationFields(chain: string | null | undefined): { fields: TransformationFields; rest: string } {
+  const fields = { ...EMPTY_TRANSFORMATION_FIELDS };
+  const rest: string[] = [];
+
+  for (const component of splitChain(chain)) {
+    const kept = component.filter((param) => {
+      const field = fieldOf(param);
+      if (field) fields[field] = param.slice(param.indexOf('_') + 1);
+      return !field;
+    });
+    if (kept.length) rest.push(kept.join(','));
+  }
+
+  return { fields, rest: rest.join('/') };
+}
+
+/**
+ * Apply the edited fields to the original chain. Cloudinary runs the components in order, so each parameter is
+ * updated (or removed when cleared) in the component it came from, the one `parseTransformationFields` read it from.
+ * New parameters join the last component holding editable parameters, so a crop stays with its width and height,
+ * or are added as a final component when there is none.
+ */
+export function buildTransformationChain(fields: TransformationFields, chain: string | null = ''): string {
+  const components = splitChain(chain);
+  const positions = new Map<keyof TransformationFields, [number, number]>();
+  components.forEach((component, i) =>
+    component.forEach((param, j) => {
+      const field = fieldOf(param);
+      if (field) positions.set(field, [i, j]);
+    })
+  );
+
+  const added: string[] = [];
+  for (const field of Object.keys(FIELD_KEYS) as Array<keyof TransformationFields>) {
+    const value = fields[field].trim();
+    const position = positions.get(field);
+    if (position) components[position[0]][position[1]] = value ? `${FIELD_KEYS[field]}_${value}` : '';
+    else if (value) added.push(`${FIELD_KEYS[field]}_${value}`);
+  }
+
+  if (added.length) {
+    const target = Math.max(-1, ...[...positions.values()].map(([i]) => i));
+    if (target >= 0) components[target].push(...added);
+    else components.push(added);
+  }
+  return components
+    .map((component) => component.filter(Boolean).join(','))
+    .filter(Boolean)
+    .join('/');
+}
+
+function splitChain(chain: string | null | undefined): string[][] {
+  return String(chain ?? '')
+    .split('/')
+    .filter(Boolean)
+    .map((component) => component.split(','));
+}
+
+function fieldOf(param: string): keyof TransformationFields | undefined {
+  const index = param.indexOf('_');
+  return index > 0 ? KEY_TO_FIELD.get(param.slice(0, index)) : undefined;
+}
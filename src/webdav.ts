@@ -0,0 +1,121 @@
+import { sendRequest } from './http';
+import type { UploadedAsset, UploadOptions, UploadProvider } from './provider';
+
+interface WebDavSettings {
+  url: string; // WebDAV collection, e.g. https://cloud.example.com/remote.php/dav/files/alice
+  username?: string;
+  password?: string;
+  folder?: string; // sub-folder of the collection receiving uploads, created with MKCOL when missing
+  public_url_prefix?: string; // public URL of `folder` (share link, reverse proxy...) used for inserted links
+}
+
+/**
+ * Upload target for self-hosted WebDAV storage (Nextcloud, ownCloud, Apache mod_dav...).
+ * Files are stored as `<folder>/<timestamp>-<filename>` so pastes with the same name never collide.
+ */
+export class WebDavUploader implements UploadProvider {
+  private settings: WebDavSettings;
+
+  constructor(settings: WebDavSettings) {
+    this.settings = settings;
+  }
+
+  describe(): string {
+    try {
+      return `WebDAV (${new URL(this.settings.url).host})`;
+    } catch (e) {
+      return 'WebDAV';
+    }
+  }
+
+  async upload(fileOrBlob: File | Blob, filename?: string, options: UploadOptions = {}): Promise<UploadedAsset> {
+    if (!this.settings.url) throw new Error('WebDAV uploads require a server URL');
+
+    const name = (fileOrBlob instanceof File ? fileOrBlob.name : filename) || `upload-${Date.now()}.png`;
+    const fileName = `${Date.now()}-${name}`;
+    const folderSegments = splitPath(this.settings.folder);
+
+    await this.ensureCollections(folderSegments, options.signal);
+
+    const response = await sendRequest({
+      method: 'PUT',
+      url: this.resourceUrl([...folderSegments, fileName]),
+      headers: { ...this.authHeaders(), 'Content-Type': fileOrBlob.type || 'application/octet-stream' },
+      body: fileOrBlob,
+      onProgress: options.onProgress,
+      signal: options.signal,
+    });
+    if (!response.ok) {
+      throw new Error(`Upload failed: ${response.status} ${await response.text()}`);
+    }
+
+    // `delete` accepts the path relative to the upload folder, so the file name is the asset id
+    return { url: this.publicUrl(fileName), public_id: fileName, bytes: fileOrBlob.size };
+  }
+
+  /**
+   * Delete an uploaded file. `id` is the URL returned by `upload` or a path relative to the upload folder.
+   */
+  async delete(id: string): Promise<void> {
+    const response = await sendRequest({ method: 'DELETE', url: this.urlFromId(id), headers: this.authHeaders() });
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`Delete failed: ${response.status} ${await response.text()}`);
+    }
+  }
+
+  /**
+   * Create every missing collection of the upload folder, parent first.
+   * MKCOL answers 405 when the collection already exists, which is fine.
+   */
+  private async ensureCollections(segments: string[], signal?: AbortSignal): Promise<void> {
+    for (let i = 1; i <= segments.length; i++) {
+      const url = `${this.resourceUrl(segments.slice(0, i))}/`;
+      const response = await sendRequest({ method: 'MKCOL', url, headers: this.authHeaders(), signal });
+      if (!response.ok && response.status !== 405) {
+        throw new Error(`Could not create folder ${segments.slice(0, i).join('/')}: ${response.status} ${await response.text()}`);
+      }
+    }
+  }
+
+  private resourceUrl(segments: string[]): string {
+    const base = this.settings.url.replace(/\/+$/, '');
+    return segments.length ? `${base}/${segments.map(encodeURIComponent).join('/')}` : base;
+  }
+
+  private publicUrl(fileName: string): string {
+    const prefix = this.settings.public_url_prefix;
+    if (prefix) {
+      // Share links often end with a query parameter (`...&files=`): append the name as-is there
+      return /[/=]$/.test(prefix) ? `${prefix}${encodeURIComponent(fileName)}` : `${prefix}/${encodeURIComponent(fileName)}`;
+    }
+    return this.resourceUrl([...splitPath(this.settings.folder), fileName]);
+  }
+
+  private urlFromId(id: string): string {
+    const prefix = this.settings.public_url_prefix;
+    if (prefix && id.startsWith(prefix)) {
+      return this.resourceUrl([...splitPath(this.settings.folder), ...splitPath(decodeURIComponent(id.slice(prefix.length)))]);
+    }
+    if (/^https?:\/\//i.test(id)) return id;
+    return this.resourceUrl([...splitPath(this.settings.folder), ...splitPath(id)]);
+  }
+
+  private authHeaders(): Record<string, string> {
+    if (!this.settings.username) return {};
+    return { Authorization: `Basic ${toBase64(`${this.settings.username}:${this.settings.password ?? ''}`)}` };
+  }
+}
+
+function splitPath(path: string | undefined): string[] {
+  return String(path || '')
+    .replace(/\\/g, '/')
+    .split('/')
+    .filter(Boolean);
+}
+
+function toBase64(value: string): string {
+  // btoa only accepts latin1: encode as UTF-8 first so non-ASCII passwords work
+  const binary = Array.from(new TextEncoder().encode(value), (b) => String.fromCharCode(b)).join('');
+  if (typeof btoa !== 'undefined') return btoa(binary);
+  return Buffer.from(binary, 'binary').toString('base64');
+}
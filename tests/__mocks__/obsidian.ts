@@ -32,6 +32,12 @@ export class Setting {
   addButton(cb: any) {
     return this;
   }
+  addDropdown(cb: any) {
+    return this;
+  }
+  addTextArea(cb: any) {
+    return this;
+  }
 }
 
 export class Notice {
@@ -55,3 +61,13 @@ export class Modal {
   onOpen() {}
   onClose() {}
 }
+
+// Just enough of Obsidian's converter for the tests: images, paragraphs and line breaks
+export function htmlToMarkdown(html: string): string {
+  return html
+    .replace(/<img\b[^>]*>/gi, (tag) => `![${tag.match(/\balt="([^"]*)"/)?.[1] ?? ''}](${tag.match(/\bsrc="([^"]*)"/)?.[1] ?? ''})`)
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/p>\s*/gi, '\n\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&amp;/g, '&');
+}
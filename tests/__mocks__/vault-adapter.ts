@@ -0,0 +1,12 @@
+/**
+ * In-memory `app.vault.adapter` over `store` (path → content), enough for the shared cache file.
+ */
+export function createMemoryAdapter(store: Record<string, string> = {}) {
+  return {
+    exists: async (path: string) => path in store,
+    read: async (path: string) => store[path],
+    write: async (path: string, data: string) => void (store[path] = data),
+    remove: async (path: string) => void delete store[path],
+    copy: async (from: string, to: string) => void (store[to] = store[from]),
+  };
+}
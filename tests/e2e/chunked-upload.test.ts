@@ -0,0 +1,107 @@
+import { describe, it, expect, vi, afterEach, beforeEach } from 'vitest';
+import { CloudinaryUploader } from '../../src/cloudinary';
+import { processFileCreate, resetAutoUploadWarnings } from '../../src/file-handler';
+
+const chunked = { threshold: 10, chunk_size: 4, retry_delay_ms: 1 };
+const finalUrl = 'https://res.cloudinary.com/demo/image/upload/v1/pano.jpg';
+
+function jsonResponse(status: number, body: any) {
+  return { ok: status >= 200 && status < 300, status, json: async () => body, text: async () => JSON.stringify(body) };
+}
+
+describe('Cloudinary chunked uploads', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('sends parts with a shared upload id and their Content-Range above the threshold', async () => {
+    const fetchMock = vi.fn().mockImplementation(async (_url: string, init: any) => {
+      const range = init.headers['Content-Range'];
+      return jsonResponse(200, range.endsWith('-10/11') ? { secure_url: finalUrl, public_id: 'pano', version: 1 } : { done: false });
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const uploader = new CloudinaryUploader({ cloud_name: 'demo', upload_preset: 'preset', chunked });
+    const { url } = await uploader.upload(new Blob(['0123456789A'], { type: 'image/jpeg' }), 'pano.jpg');
+
+    expect(url).toBe(finalUrl);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    const headers = fetchMock.mock.calls.map(([, init]) => init.headers);
+    expect(headers.map((h) => h['Content-Range'])).toEqual(['bytes 0-3/11', 'bytes 4-7/11', 'bytes 8-10/11']);
+    expect(new Set(headers.map((h) => h['X-Unique-Upload-Id'])).size).toBe(1);
+
+    const lastForm = fetchMock.mock.calls[2][1].body as FormData;
+    expect(lastForm.get('upload_preset')).toBe('preset');
+    expect(await (lastForm.get('file') as Blob).text()).toBe('89A');
+  });
+
+  it('retries only the failed part after a transient error', async () => {
+    const ranges: string[] = [];
+    let failures = 0;
+    vi.stubGlobal(
+      'fetch',
+      vi.fn().mockImplementation(async (_url: string, init: any) => {
+        const range = init.headers['Content-Range'];
+        ranges.push(range);
+        if (range === 'bytes 4-7/11' && failures < 2) {
+          failures++;
+          if (failures === 1) throw new TypeError('Failed to fetch');
+          return jsonResponse(503, { error: { message: 'Service unavailable' } });
+        }
+        return jsonResponse(200, range.endsWith('/11') && range.startsWith('bytes 8') ? { secure_url: finalUrl } : { done: false });
+      })
+    );
+
+    const uploader = new CloudinaryUploader({ cloud_name: 'demo', upload_preset: 'preset', chunked });
+    await expect(uploader.upload(new Blob(['0123456789A']), 'pano.jpg')).resolves.toMatchObject({ url: finalUrl });
+    expect(ranges).toEqual(['bytes 0-3/11', 'bytes 4-7/11', 'bytes 4-7/11', 'bytes 4-7/11', 'bytes 8-10/11']);
+  });
+
+  it('stops on client errors and after the retry budget', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(jsonResponse(400, { error: { message: 'Invalid upload preset' } })));
+    const uploader = new CloudinaryUploader({ cloud_name: 'demo', upload_preset: 'bad', chunked });
+    await expect(uploader.upload(new Blob(['0123456789A']), 'pano.jpg')).rejects.toThrow('Upload failed: 400 Invalid upload preset');
+
+    const fetchMock = vi.fn().mockRejectedValue(new TypeError('Failed to fetch'));
+    vi.stubGlobal('fetch', fetchMock);
+    const retrying = new CloudinaryUploader({ cloud_name: 'demo', upload_preset: 'preset', chunked: { ...chunked, max_retries: 2 } });
+    await expect(retrying.upload(new Blob(['0123456789A']), 'pano.jpg')).rejects.toThrow('Failed to fetch');
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('keeps single requests below the threshold', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(jsonResponse(200, { secure_url: finalUrl }));
+    vi.stubGlobal('fetch', fetchMock);
+    const uploader = new CloudinaryUploader({ cloud_name: 'demo', upload_preset: 'preset', chunked });
+    await uploader.upload(new Blob(['0123']), 'small.jpg');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock.mock.calls[0][1].headers).toBeUndefined();
+  });
+
+  describe('size limit', () => {
+    beforeEach(() => {
+      resetAutoUploadWarnings();
+    });
+
+    it('only warns about large files when "upload large files" is enabled', async () => {
+      const file = { extension: 'png', name: 'big.png', basename: 'big', path: 'notes/big.png', stat: { ctime: Date.now() } } as any;
+      const editor: any = { getValue: () => `![](${file.path})`, setValue: vi.fn() };
+      const app: any = {
+        vault: { readBinary: vi.fn().mockResolvedValue(new Uint8Array(2 * 1024 * 1024)) },
+        workspace: { getActiveViewOfType: vi.fn().mockReturnValue({ editor }) },
+      };
+      const upload = vi.fn().mockResolvedValue(finalUrl);
+      class MockUploader {
+        upload = upload;
+      }
+      const notify = vi.fn();
+
+      const settings: any = { autoUploadOnFileAdd: true, cloudName: 'demo', uploadPreset: 'preset', maxAutoUploadSizeMB: 1, uploadLargeFiles: true };
+      await processFileCreate(app, settings, file, MockUploader, { notify });
+
+      expect(notify).toHaveBeenCalledWith('⚠️ big.png exceeds 1 MB: uploading anyway, this may take a while');
+      expect(upload).toHaveBeenCalledTimes(1);
+      expect(editor.setValue.mock.calls[0][0]).toContain(finalUrl);
+    });
+  });
+});
@@ -1,5 +1,5 @@
-import { describe, it, expect, vi } from 'vitest';
-import { CloudinaryUploader, ensureUploadPreset } from '../../src/cloudinary';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { CloudinaryUploader, createUnsignedPreset, defaultPresetConfig, ensureUploadPreset, saveUploadPreset } from '../../src/cloudinary';
 import * as fileHandler from '../../src/file-handler';
 
 describe('createUploadPreset flow', () => {
@@ -133,3 +133,124 @@ describe('createUploadPreset flow', () => {
     spy.mockRestore();
   });
 });
+
+describe('upload preset wizard', () => {
+  const uploader = () => new CloudinaryUploader({ cloud_name: 'demo', api_key: 'key', api_secret: 'secret' });
+  const response = (status: number, body: any) => ({ ok: status >= 200 && status < 300, status, text: async () => JSON.stringify(body) });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('restricts the default preset to the configured folder, tags, formats and size', () => {
+    const config = defaultPresetConfig({ cloudinaryFolder: 'notes', cloudinaryTags: 'obsidian', maxAutoUploadSizeMB: 5, videoExtensions: '', audioExtensions: '' });
+    expect(config).toEqual({
+      name: 'obsidian_auto_unsigned',
+      unsigned: true,
+      folder: 'notes',
+      tags: 'obsidian',
+      allowed_formats: ['png', 'jpg', 'jpeg', 'gif', 'webp', 'svg', 'pdf'],
+      max_file_size: 5 * 1024 * 1024,
+    });
+    expect(defaultPresetConfig({ maxAutoUploadSizeMB: 5, uploadLargeFiles: true }).max_file_size).toBeUndefined();
+  });
+
+  it('creates the preset with its restrictions through the upload_presets API', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(response(200, { message: 'created', name: 'obsidian_auto_unsigned' }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const settings = { autoUploadOnFileAdd: true, cloudName: 'demo', apiKey: 'key', apiSecret: 'secret', allowStoreApiSecret: true, cloudinaryFolder: '/notes/' };
+    expect(await ensureUploadPreset(settings)).toBe('obsidian_auto_unsigned');
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://api.cloudinary.com/v1_1/demo/upload_presets');
+    expect(init.method).toBe('POST');
+    expect(init.headers.Authorization).toBe(`Basic ${Buffer.from('key:secret').toString('base64')}`);
+    expect(JSON.parse(init.body)).toEqual({
+      name: 'obsidian_auto_unsigned',
+      unsigned: true,
+      folder: 'notes',
+      allowed_formats: 'png,jpg,jpeg,gif,webp,svg,mp4,webm,mov,mp3,wav,ogg,m4a,pdf',
+    });
+  });
+
+  it('reads an existing preset and updates it instead of failing on "already exists"', async () => {
+    const preset = {
+      name: 'notes',
+      unsigned: true,
+      settings: { folder: 'old', tags: ['a', 'b'], allowed_formats: 'png', transformation: [{ crop: 'limit', width: 2000 }] },
+    };
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(response(200, preset))
+      .mockResolvedValueOnce(response(200, preset))
+      .mockResolvedValueOnce(response(200, { message: 'updated' }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const existing = await uploader().getUploadPreset('notes');
+    expect(existing).toEqual({
+      name: 'notes',
+      unsigned: true,
+      folder: 'old',
+      tags: ['a', 'b'],
+      allowed_formats: 'png',
+      max_file_size: undefined,
+      transformation: 'c_limit,w_2000',
+    });
+
+    const result = await saveUploadPreset(uploader(), { ...existing!, folder: undefined, allowed_formats: 'PNG, jpg', max_file_size: 1024 });
+    expect(result).toBe('updated');
+
+    const [url, init] = fetchMock.mock.calls[2];
+    expect(url).toBe('https://api.cloudinary.com/v1_1/demo/upload_presets/notes');
+    expect(init.method).toBe('PUT');
+    // Cleared fields are sent empty so Cloudinary removes them
+    expect(JSON.parse(init.body)).toEqual({ unsigned: true, folder: '', tags: 'a,b', allowed_formats: 'png,jpg', max_file_size: 1024, transformation: 'c_limit,w_2000' });
+  });
+
+  it('creates the preset when it does not exist yet', async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(response(404, { error: { message: 'Resource not found - fresh' } }))
+      .mockResolvedValueOnce(response(200, { name: 'fresh' }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    expect(await saveUploadPreset(uploader(), { name: 'fresh', unsigned: false })).toBe('created');
+    expect(fetchMock.mock.calls[1][1].method).toBe('POST');
+    expect(JSON.parse(fetchMock.mock.calls[1][1].body)).toEqual({ name: 'fresh', unsigned: false });
+  });
+
+  it('keeps an existing unsigned preset and makes a signed one unsigned', async () => {
+    const exists = response(400, { error: { message: 'Upload preset with name obsidian_auto_unsigned already exists' } });
+    const config = { name: 'obsidian_auto_unsigned', unsigned: true, folder: 'obsidian' };
+
+    const unsignedMock = vi.fn().mockResolvedValueOnce(exists).mockResolvedValueOnce(response(200, { name: config.name, unsigned: true }));
+    vi.stubGlobal('fetch', unsignedMock);
+    expect(await createUnsignedPreset(uploader(), config)).toBe('existing');
+    expect(unsignedMock).toHaveBeenCalledTimes(2);
+
+    const signedMock = vi
+      .fn()
+      .mockResolvedValueOnce(exists)
+      .mockResolvedValueOnce(response(200, { name: config.name, unsigned: false }))
+      .mockResolvedValueOnce(response(200, { message: 'updated' }));
+    vi.stubGlobal('fetch', signedMock);
+    expect(await createUnsignedPreset(uploader(), config)).toBe('updated');
+    const [url, init] = signedMock.mock.calls[2];
+    expect(url).toBe('https://api.cloudinary.com/v1_1/demo/upload_presets/obsidian_auto_unsigned');
+    expect(init.method).toBe('PUT');
+    expect(JSON.parse(init.body)).toMatchObject({ unsigned: true, folder: 'obsidian' });
+  });
+
+  it('does not take other errors mentioning "already" for an existing preset', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(response(420, { error: { message: 'Rate limit already reached' } }));
+    vi.stubGlobal('fetch', fetchMock);
+    await expect(createUnsignedPreset(uploader(), { name: 'p', unsigned: true })).rejects.toThrow('Create preset failed: 420');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports an unreadable update response instead of a JSON parse error', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: true, status: 200, text: async () => '<html>Bad gateway</html>' }));
+    await expect(uploader().updateUploadPreset({ name: 'notes', unsigned: true })).rejects.toThrow('Invalid response from update upload preset');
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { CustomEndpointUploader, getValueAtPath, parseKeyValueLines } from '../../src/custom-endpoint';
+import { createUploadProvider } from '../../src/provider';
+
+describe('Custom HTTP endpoint provider', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('posts the file with extra fields and headers and maps the URL from the JSON response', async () => {
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: true,
+      status: 200,
+      text: async () => JSON.stringify({ data: { link: 'https://i.example.com/abc.png' }, success: true }),
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const uploader = createUploadProvider({
+      provider: 'custom',
+      customUploadUrl: 'https://api.example.com/3/image',
+      customFileField: 'image',
+      customExtraFields: 'album=notes\n# comment\ntype=file',
+      customHeaders: 'Authorization: Client-ID abc123',
+      customResponseUrlPath: 'data.link',
+    });
+    expect(uploader).toBeInstanceOf(CustomEndpointUploader);
+
+    const { url } = await uploader.upload(new Blob(['png'], { type: 'image/png' }), 'shot.png');
+
+    expect(url).toBe('https://i.example.com/abc.png');
+    const [requestUrl, init] = fetchMock.mock.calls[0];
+    expect(requestUrl).toBe('https://api.example.com/3/image');
+    expect(init.method).toBe('POST');
+    expect(init.headers).toEqual({ Authorization: 'Client-ID abc123' });
+    const body = init.body as FormData;
+    expect(body.get('album')).toBe('notes');
+    expect(body.get('type')).toBe('file');
+    expect((body.get('image') as File).name).toBe('shot.png');
+  });
+
+  it('fails clearly when the response does not contain a URL at the configured path', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: true, status: 200, text: async () => '{"data":{}}' }));
+    const uploader = new CustomEndpointUploader({ url: 'https://api.example.com/upload', response_url_path: 'data.link' });
+    await expect(uploader.upload(new Blob(['x']), 'x.png')).rejects.toThrow('No URL found at "data.link"');
+  });
+
+  it('reports HTTP errors with the response body', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: false, status: 401, text: async () => 'Unauthorized' }));
+    const uploader = new CustomEndpointUploader({ url: 'https://api.example.com/upload' });
+    await expect(uploader.upload(new Blob(['x']), 'x.png')).rejects.toThrow('Upload failed: 401 Unauthorized');
+  });
+
+  it('resolves dotted and indexed JSON paths', () => {
+    const json = { files: [{ url: 'https://a/1.png' }], data: { link: 'https://b/2.png' } };
+    expect(getValueAtPath(json, 'data.link')).toBe('https://b/2.png');
+    expect(getValueAtPath(json, 'files[0].url')).toBe('https://a/1.png');
+    expect(getValueAtPath(json, 'files.0.url')).toBe('https://a/1.png');
+    expect(getValueAtPath(json, 'missing.link')).toBeUndefined();
+  });
+
+  it('parses key/value lines and keeps separators inside values', () => {
+    expect(parseKeyValueLines('Authorization: Bearer a:b\n\nX-Test:1', ':')).toEqual({ Authorization: 'Bearer a:b', 'X-Test': '1' });
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { TFile } from 'obsidian';
+import { CloudinaryCache } from '../../src/cache';
+import { findLinkAt } from '../../src/cloudinary-url';
+import { deleteAssetAtCursor } from '../../src/delete-asset';
+import { createMemoryAdapter } from '../__mocks__/vault-adapter';
+
+const url = 'https://res.cloudinary.com/demo/image/upload/v17/obsidian/shot.png';
+
+function createStore() {
+  const store: Record<string, string> = {};
+  return {
+    store,
+    adapter: createMemoryAdapter(store),
+  };
+}
+
+function createEditor(text: string, ch: number) {
+  const lines = text.split('\n');
+  return {
+    getCursor: () => ({ line: 0, ch }),
+    getLine: (n: number) => lines[n],
+    replaceRange: vi.fn((replacement: string, from: any, to: any) => {
+      lines[0] = lines[0].slice(0, from.ch) + replacement + lines[0].slice(to.ch);
+    }),
+    get text() {
+      return lines.join('\n');
+    },
+  };
+}
+
+describe('Delete Cloudinary asset under cursor', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('finds markdown, HTML and bare links around the cursor', () => {
+    const line = `See ![cover](${url}) and <video src="https://res.cloudinary.com/demo/video/upload/a.mp4" controls></video> or https://x.dev/a`;
+    expect(findLinkAt(line, 6)).toMatchObject({ url, alt: 'cover', from: 4 });
+    expect(findLinkAt(line, line.indexOf('<video') + 3)).toMatchObject({ url: 'https://res.cloudinary.com/demo/video/upload/a.mp4' });
+    expect(findLinkAt(line, line.length - 2)).toMatchObject({ url: 'https://x.dev/a' });
+    expect(findLinkAt(line, 1)).toBeUndefined();
+  });
+
+  it('destroys the asset from the cache public_id, removes the entry and restores the local copy', async () => {
+    const fetchMock = vi.fn().mockResolvedValue({ ok: true, status: 200, text: async () => '{"result":"ok"}' });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const { store, adapter } = createStore();
+    const localCopy = Object.assign(new TFile(), { path: 'assets/my shot.png', name: 'my shot.png' });
+    const app: any = { vault: { adapter, getAbstractFileByPath: (p: string) => (p === localCopy.path ? localCopy : null) } };
+    const cache = new CloudinaryCache(app, 'cache.json');
+    await cache.addEntry('h1', {
+      url,
+      public_id: 'custom/id',
+      filename: 'my shot.png',
+      uploaded_at: null,
+      uploader: 'obsidian-plugin',
+      resource_type: 'image',
+      width: null,
+      height: null,
+      bytes: null,
+      format: null,
+      version: null,
+    });
+
+    const editor = createEditor(`Intro ![shot](${url}) end`, 10);
+    const confirm = vi.fn().mockResolvedValue({ restoreLocal: true });
+    const settings: any = {
+      cloudName: 'demo',
+      apiKey: 'key',
+      apiSecret: 'secret',
+      allowStoreApiSecret: true,
+      cacheFilePath: 'cache.json',
+      localCopyFolder: 'assets',
+    };
+
+    const deleted = await deleteAssetAtCursor(app, settings, editor, { confirm });
+
+    expect(deleted).toBe(true);
+    expect(confirm).toHaveBeenCalledWith({ url, publicId: 'custom/id', resourceType: 'image', localPath: 'assets/my shot.png' });
+    const [destroyUrl, init] = fetchMock.mock.calls[0];
+    expect(destroyUrl).toBe('https://api.cloudinary.com/v1_1/demo/image/destroy');
+    expect((init.body as FormData).get('public_id')).toBe('custom/id');
+    expect((init.body as FormData).get('signature')).toMatch(/^[0-9a-f]{40}$/);
+    expect(JSON.parse(store['cache.json'])).toEqual({});
+    expect(editor.text).toBe('Intro ![shot](assets/my%20shot.png) end');
+  });
+
+  it('falls back to the public_id and resource type parsed from the URL', async () => {
+    const fetchMock = vi.fn().mockResolvedValue({ ok: true, status: 200, text: async () => '{"result":"ok"}' });
+    vi.stubGlobal('fetch', fetchMock);
+    const videoUrl = 'https://res.cloudinary.com/demo/video/upload/v2/clips/demo.mp4';
+    const editor = createEditor(`<video src="${videoUrl}" controls></video>`, 3);
+    const settings: any = { cloudName: 'demo', signatureEndpoint: 'https://sign.example.com/sign' };
+    fetchMock.mockImplementationOnce(async () => ({ ok: true, status: 200, text: async () => '{"signature":"sig","timestamp":1,"api_key":"key"}' }));
+
+    const deleted = await deleteAssetAtCursor({ vault: {} }, settings, editor, { confirm: async () => ({ restoreLocal: false }) });
+
+    expect(deleted).toBe(true);
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body).params_to_sign).toMatchObject({ public_id: 'clips/demo', invalidate: 'true' });
+    expect(fetchMock.mock.calls[1][0]).toBe('https://api.cloudinary.com/v1_1/demo/video/destroy');
+    expect(editor.replaceRange).not.toHaveBeenCalled();
+  });
+
+  it('does nothing without a Cloudinary link, signing credentials or confirmation', async () => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+    const notify = vi.fn();
+    const confirm = vi.fn().mockResolvedValue(undefined);
+
+    await deleteAssetAtCursor({ vault: {} }, { cloudName: 'demo' }, createEditor('![a](https://x.dev/a.png)', 3), { confirm, notify });
+    expect(notify).toHaveBeenLastCalledWith('⚠️ No Cloudinary link under the cursor');
+
+    await deleteAssetAtCursor({ vault: {} }, { cloudName: 'demo', uploadPreset: 'p' }, createEditor(url, 3), { confirm, notify });
+    expect(notify).toHaveBeenLastCalledWith('❌ Deleting assets requires the API secret (signed uploads) or a signing endpoint');
+
+    const settings = { cloudName: 'demo', apiKey: 'k', apiSecret: 's', allowStoreApiSecret: true };
+    expect(await deleteAssetAtCursor({ vault: {} }, settings, createEditor(url, 3), { confirm, notify })).toBe(false);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('ignores cached uploads of other providers', async () => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+    const s3Url = 'https://bucket.s3.amazonaws.com/obsidian/shot.png';
+    const { adapter } = createStore();
+    const app: any = { vault: { adapter } };
+    await new CloudinaryCache(app, 'cache.json').addEntry('h1', {
+      url: s3Url,
+      public_id: 'obsidian/shot.png',
+      filename: 'shot.png',
+      uploaded_at: null,
+      uploader: 'obsidian-plugin',
+      resource_type: 'image',
+      width: null,
+      height: null,
+      bytes: null,
+      format: null,
+      version: null,
+    });
+    const notify = vi.fn();
+    const confirm = vi.fn().mockResolvedValue({ restoreLocal: false });
+    const settings = { cloudName: 'demo', apiKey: 'k', apiSecret: 's', allowStoreApiSecret: true, cacheFilePath: 'cache.json' };
+
+    expect(await deleteAssetAtCursor(app, settings, createEditor(`![shot](${s3Url})`, 3), { confirm, notify })).toBe(false);
+
+    expect(notify).toHaveBeenLastCalledWith('⚠️ No Cloudinary link under the cursor');
+    expect(confirm).not.toHaveBeenCalled();
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect, vi } from 'vitest';
+import { editTransformationAtCursor } from '../../src/edit-transformation';
+import { buildTransformationChain, EMPTY_TRANSFORMATION_FIELDS, parseTransformationFields } from '../../src/transformations';
+
+function createEditor(text: string, ch: number) {
+  const lines = text.split('\n');
+  return {
+    getCursor: () => ({ line: 0, ch }),
+    getLine: (n: number) => lines[n],
+    replaceRange: vi.fn((replacement: string, from: any, to: any) => {
+      lines[0] = lines[0].slice(0, from.ch) + replacement + lines[0].slice(to.ch);
+    }),
+    get text() {
+      return lines.join('\n');
+    },
+  };
+}
+
+describe('Edit Cloudinary transformation under cursor', () => {
+  it('splits the editable parameters from the rest of the chain and rebuilds it', () => {
+    const { fields, rest } = parseTransformationFields('e_sharpen,w_300/c_fill,h_200,q_auto/a_90');
+    expect(fields).toEqual({ width: '300', height: '200', crop: 'fill', quality: 'auto', format: '', angle: '90' });
+    expect(rest).toBe('e_sharpen');
+    expect(buildTransformationChain({ ...fields, width: '800', angle: '' }, 'e_sharpen,w_300/c_fill,h_200,q_auto/a_90')).toBe('e_sharpen,w_800/c_fill,h_200,q_auto');
+    expect(buildTransformationChain(parseTransformationFields(null).fields)).toBe('');
+  });
+
+  it('keeps each parameter in its chain step and adds new ones with the sizing parameters', () => {
+    const chain = 'c_fill,w_300/e_sharpen';
+    const { fields } = parseTransformationFields(chain);
+    expect(buildTransformationChain(fields, chain)).toBe(chain);
+    expect(buildTransformationChain({ ...fields, height: '200', format: 'auto' }, chain)).toBe('c_fill,w_300,h_200,f_auto/e_sharpen');
+    expect(buildTransformationChain({ ...EMPTY_TRANSFORMATION_FIELDS, width: '800' }, 'e_sharpen')).toBe('e_sharpen/w_800');
+  });
+
+  it('rewrites the URL of the link under the cursor and keeps the alt text', async () => {
+    const url = 'https://res.cloudinary.com/demo/image/upload/e_sharpen/w_300/v17/notes/my%20shot.png';
+    const editor = createEditor(`Intro ![my shot](${url}) end`, 10);
+    const edit = vi.fn().mockImplementation(async (request) => ({ ...request.fields, width: '800', crop: 'limit', format: 'auto' }));
+
+    expect(await editTransformationAtCursor(editor, { edit })).toBe(true);
+
+    expect(edit.mock.calls[0][0]).toMatchObject({
+      url,
+      parts: { cloud_name: 'demo', version: 17, public_id: 'notes/my shot' },
+      fields: { width: '300' },
+      rest: 'e_sharpen',
+    });
+    expect(editor.text).toBe('Intro ![my shot](https://res.cloudinary.com/demo/image/upload/e_sharpen/w_800,c_limit,f_auto/v17/notes/my%20shot.png) end');
+  });
+
+  it('keeps the query string and hash, and inserts replacement patterns literally', async () => {
+    const editor = createEditor('![a](https://res.cloudinary.com/demo/image/upload/w_300/a.png?_a=BAMAK+ZW0#top)', 3);
+    await editTransformationAtCursor(editor, { edit: async (request) => ({ ...request.fields, width: '$&', angle: "$'" }) });
+    expect(editor.text).toBe("![a](https://res.cloudinary.com/demo/image/upload/w_$&,a_$'/a.png?_a=BAMAK+ZW0#top)");
+  });
+
+  it('drops the transformation segment when every field is cleared', async () => {
+    const editor = createEditor('<img src="https://res.cloudinary.com/demo/image/upload/w_300/cat.jpg" alt="cat">', 5);
+    await editTransformationAtCursor(editor, { edit: async (request) => ({ ...request.fields, width: '' }) });
+    expect(editor.text).toBe('<img src="https://res.cloudinary.com/demo/image/upload/cat.jpg" alt="cat">');
+  });
+
+  it('does nothing outside Cloudinary links, for raw files or when cancelled', async () => {
+    const notify = vi.fn();
+    const edit = vi.fn().mockResolvedValue(undefined);
+
+    expect(await editTransformationAtCursor(createEditor('![a](https://x.dev/a.png)', 3), { edit, notify })).toBe(false);
+    expect(notify).toHaveBeenLastCalledWith('⚠️ No Cloudinary link under the cursor');
+    await editTransformationAtCursor(createEditor('https://res.cloudinary.com/demo/raw/upload/doc.pdf', 3), { edit, notify });
+    expect(notify).toHaveBeenLastCalledWith('⚠️ Raw files cannot be transformed');
+    expect(edit).not.toHaveBeenCalled();
+
+    const editor = createEditor('![a](https://res.cloudinary.com/demo/image/upload/a.png)', 3);
+    expect(await editTransformationAtCursor(editor, { edit })).toBe(false);
+    expect(editor.replaceRange).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect, vi } from 'vitest';
+import { handleEditorDrop, handleEditorPaste } from '../../src/editor-events';
+import { createMemoryAdapter } from '../__mocks__/vault-adapter';
+
+const url = 'https://res.cloudinary.com/demo/image/upload/v17/shot.png';
+const settings = { cloudName: 'demo', uploadPreset: 'preset', handleEditorPasteDrop: true, cacheFilePath: 'cache.json' };
+
+function makeApp(store: Record<string, string> = {}) {
+  return {
+    vault: { adapter: createMemoryAdapter(store) },
+  };
+}
+
+// Text-backed editor: selection `from`-`to` on line 1, drops land at offset 12
+function makeEditor(text = 'Title\nSome text here\n\nEnd') {
+  const posToOffset = ({ line, ch }: { line: number; ch: number }) =>
+    text.split('\n').slice(0, line).reduce((sum, l) => sum + l.length + 1, 0) + ch;
+  const offsetToPos = (offset: number) => {
+    const before = text.slice(0, offset).split('\n');
+    return { line: before.length - 1, ch: before[before.length - 1].length };
+  };
+  return {
+    getCursor: vi.fn((which?: string) => (which === 'to' ? { line: 1, ch: 9 } : { line: 1, ch: 5 })),
+    getValue: () => text,
+    replaceRange: vi.fn((replacement: string, from: any, to: any = from) => {
+      text = text.slice(0, posToOffset(from)) + replacement + text.slice(posToOffset(to));
+    }),
+    offsetToPos: vi.fn(offsetToPos),
+    cm: { posAtCoords: vi.fn().mockReturnValue(12) },
+    get text() {
+      return text;
+    },
+  };
+}
+
+function pasteEvent(files: File[]): any {
+  return { defaultPrevented: false, preventDefault: vi.fn(), clipboardData: { files, items: [] } };
+}
+
+describe('editor paste and drop', () => {
+  it('uploads a pasted image and replaces the selection with its link', async () => {
+    const upload = vi.fn().mockResolvedValue(url);
+    const editor = makeEditor();
+    const notify = vi.fn();
+    const evt = pasteEvent([new File(['png-bytes'], 'image.png', { type: 'image/png' })]);
+
+    const handled = handleEditorPaste(evt, editor, makeApp(), settings, { uploader: { upload }, notify });
+    // The default action is prevented and a placeholder inserted before the upload starts
+    expect(evt.preventDefault).toHaveBeenCalled();
+    expect(editor.text).toMatch(/^Title\nSome !\[Uploading image-\d+\.png…\]\(#upload-[\w-]+\) here/);
+    expect(await handled).toBe(true);
+
+    expect(upload).toHaveBeenCalledWith(expect.anything(), expect.stringMatching(/^image-\d+\.png$/), expect.anything());
+    expect(editor.text).toBe(`Title\nSome ![image](${url}) here\n\nEnd`);
+    expect(notify).toHaveBeenCalledWith('✅ Image uploaded!');
+  });
+
+  it('inserts dropped images at the drop position and reuses cached uploads', async () => {
+    const store: Record<string, string> = {};
+    const upload = vi.fn().mockResolvedValue(url);
+    const drop = (): any => ({
+      defaultPrevented: false,
+      preventDefault: vi.fn(),
+      clientX: 40,
+      clientY: 80,
+      dataTransfer: { files: [new File(['same-bytes'], 'diagram.png', { type: 'image/png' })], items: [] },
+    });
+
+    const first = makeEditor();
+    expect(await handleEditorDrop(drop(), first, makeApp(store), settings, { uploader: { upload } })).toBe(true);
+    expect(first.cm.posAtCoords).toHaveBeenCalledWith({ x: 40, y: 80 });
+    expect(first.text).toBe(`Title\nSome t![diagram](${url})ext here\n\nEnd`);
+    expect(Object.values(JSON.parse(store['cache.json']))).toEqual([expect.objectContaining({ url })]);
+
+    const second = makeEditor();
+    await handleEditorDrop(drop(), second, makeApp(store), settings, { uploader: { upload } });
+    expect(upload).toHaveBeenCalledTimes(1);
+    expect(second.text).toBe(first.text);
+  });
+
+  it('inserts one line per dropped image in the original order and reports a summary', async () => {
+    const editor = makeEditor();
+    const notify = vi.fn();
+    const upload = vi.fn(async (_blob: Blob, filename?: string) => {
+      if (filename === 'c.png') throw new Error('Upload failed: 413 Payload Too Large');
+      await new Promise((resolve) => setTimeout(resolve, filename === 'a.png' ? 15 : 1));
+      return `https://res.cloudinary.com/demo/image/upload/${filename}`;
+    });
+    const files = ['a', 'b', 'c', 'd'].map((name) => new File([name], `${name}.png`, { type: 'image/png' }));
+    const evt: any = { defaultPrevented: false, preventDefault: vi.fn(), dataTransfer: { files, items: [] } };
+
+    await handleEditorDrop(evt, editor, makeApp(), settings, { uploader: { upload }, notify });
+
+    const at = (name: string) => `![${name}](https://res.cloudinary.com/demo/image/upload/${name}.png)`;
+    expect(editor.text).toBe(`Title\nSome t${[at('a'), at('b'), at('d')].join('\n')}ext here\n\nEnd`);
+    expect(notify).toHaveBeenLastCalledWith('⚠️ 4 images: 3 uploaded, 1 failed (Upload failed: 413 Payload Too Large)');
+  });
+
+  it('asks for the alt text while uploading and fills the link template', async () => {
+    const editor = makeEditor();
+    const upload = vi.fn().mockResolvedValue({ url, width: 320, height: 200 });
+    const promptAlt = vi.fn().mockResolvedValue('Architecture diagram');
+    const evt: any = { defaultPrevented: false, preventDefault: vi.fn(), dataTransfer: { files: [new File(['d'], 'diagram.png', { type: 'image/png' })], items: [] } };
+    const note = { path: 'Design.md', basename: 'Design' };
+    const app = { ...makeApp(), workspace: { getActiveFile: () => note, getLeavesOfType: () => [{ view: { file: note, editor } }] } };
+    const templated = { ...settings, promptAltText: true, linkTemplate: '![{alt}|{width}]({url} "{note}/{basename}")' };
+
+    await handleEditorDrop(evt, editor, app, templated, { uploader: { upload }, promptAlt });
+
+    expect(promptAlt).toHaveBeenCalledWith('diagram.png', 'diagram');
+    expect(editor.text).toBe(`Title\nSome t![Architecture diagram|320](${url} "Design/diagram")ext here\n\nEnd`);
+  });
+
+  it('leaves the event to Obsidian when disabled or without image data', async () => {
+    const upload = vi.fn();
+    const image = pasteEvent([new File(['png'], 'image.png', { type: 'image/png' })]);
+    expect(await handleEditorPaste(image, makeEditor(), makeApp(), { ...settings, handleEditorPasteDrop: false }, { uploader: { upload } })).toBe(false);
+    expect(image.preventDefault).not.toHaveBeenCalled();
+
+    const text = pasteEvent([new File(['hello'], 'notes.txt', { type: 'text/plain' })]);
+    expect(await handleEditorPaste(text, makeEditor(), makeApp(), settings, { uploader: { upload } })).toBe(false);
+    expect(text.preventDefault).not.toHaveBeenCalled();
+    expect(upload).not.toHaveBeenCalled();
+  });
+
+  it('leaves an error marker in place of the placeholder when the upload fails', async () => {
+    const editor = makeEditor();
+    const notify = vi.fn();
+    const upload = vi.fn().mockRejectedValue(new Error('Upload failed: 400 Bad Request'));
+    const evt = pasteEvent([new File(['png'], 'image.png', { type: 'image/png' })]);
+
+    expect(await handleEditorPaste(evt, editor, makeApp(), settings, { uploader: { upload }, notify })).toBe(true);
+    expect(editor.text).toMatch(/^Title\nSome !\[❌ Upload failed: image-\d+\.png \(Upload failed: 400 Bad Request\)\]\(\) here/);
+    expect(notify).toHaveBeenCalledWith('❌ Error: Upload failed: 400 Bad Request');
+  });
+});
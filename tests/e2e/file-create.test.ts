@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { processFileCreate, resetAutoUploadWarnings } from '../../src/file-handler';
+import { UploadCancelledError } from '../../src/http';
 
 describe('processFileCreate', () => {
   beforeEach(() => {
@@ -183,4 +184,160 @@ describe('processFileCreate', () => {
 
     expect(editor.setValue.mock.calls[0][0]).toContain(url);
   });
+
+  it('leaves the note untouched when the upload is cancelled', async () => {
+    const file = {
+      extension: 'png',
+      name: 'image.png',
+      basename: 'image',
+      path: 'notes/image.png',
+      stat: { ctime: Date.now() },
+    } as any;
+
+    const editor: any = { getValue: () => `![](${file.path})`, setValue: vi.fn() };
+    const app: any = {
+      vault: {
+        readBinary: vi.fn().mockResolvedValue(new Uint8Array(1000)),
+        createBinary: vi.fn(),
+        createFolder: vi.fn(),
+        delete: vi.fn(),
+        adapter: { exists: vi.fn().mockResolvedValue(false) },
+        getAbstractFileByPath: vi.fn(),
+      },
+      workspace: { getActiveViewOfType: vi.fn().mockReturnValue({ editor }) },
+    };
+
+    const progress = { signal: new AbortController().signal, onProgress: vi.fn(), finish: vi.fn() };
+    class MockUploader {
+      constructor() {}
+      upload = vi.fn().mockImplementation(async (_blob: Blob, _name: string, options: any) => {
+        options.onProgress(10, 100);
+        throw new UploadCancelledError();
+      });
+    }
+
+    const notify = vi.fn();
+    const settings: any = {
+      autoUploadOnFileAdd: true,
+      cloudName: 'demo',
+      uploadPreset: 'preset',
+      localCopyEnabled: true,
+      localCopyFolder: 'assets',
+      deleteSourceAfterUpload: true,
+      debugLogs: true,
+    };
+
+    await processFileCreate(app, settings, file, MockUploader as any, { notify, startProgress: () => progress });
+
+    expect(progress.onProgress).toHaveBeenCalledWith(10, 100);
+    expect(progress.finish).toHaveBeenCalled();
+    expect(notify).toHaveBeenCalledWith(expect.stringContaining('Upload cancelled'));
+    expect(editor.setValue).not.toHaveBeenCalled();
+    expect(app.vault.createBinary).not.toHaveBeenCalled();
+    expect(app.vault.delete).not.toHaveBeenCalled();
+  });
+
+  it('strips the GPS metadata of a photo before uploading it and says so', async () => {
+    const file = { extension: 'jpg', name: 'photo.jpg', basename: 'photo', path: 'notes/photo.jpg', stat: { ctime: Date.now() } } as any;
+    // SOI, APP1 EXIF whose first IFD only holds a GPS IFD pointer, then the scan
+    const exif = [0x45, 0x78, 0x69, 0x66, 0, 0, 0x49, 0x49, 0x2a, 0, 8, 0, 0, 0, 1, 0, 0x25, 0x88, 4, 0, 1, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0];
+    const scan = [0xff, 0xda, 0, 3, 1, 0xff, 0xd9];
+    const photo = new Uint8Array([0xff, 0xd8, 0xff, 0xe1, 0, exif.length + 2, ...exif, ...scan]);
+
+    const editor: any = { getValue: () => `![](${file.path})`, setValue: vi.fn() };
+    const app: any = {
+      vault: { readBinary: vi.fn().mockResolvedValue(photo.buffer), adapter: { exists: vi.fn().mockResolvedValue(false) } },
+      workspace: { getActiveViewOfType: vi.fn().mockReturnValue({ editor }) },
+    };
+    const uploaded: Blob[] = [];
+    class MockUploader {
+      constructor() {}
+      upload = vi.fn().mockImplementation(async (blob: Blob) => {
+        uploaded.push(blob);
+        return 'https://res.cloudinary.com/demo/image/upload/photo.jpg';
+      });
+    }
+
+    const notify = vi.fn();
+    const settings: any = { autoUploadOnFileAdd: true, cloudName: 'demo', uploadPreset: 'preset', stripImageMetadata: true };
+
+    await processFileCreate(app, settings, file, MockUploader as any, { notify });
+
+    expect(Array.from(new Uint8Array(await uploaded[0].arrayBuffer()))).toEqual([0xff, 0xd8, ...scan]);
+    expect(notify).toHaveBeenCalledWith('✅ Image uploaded: https://res.cloudinary.com/demo/image/upload/photo.jpg (removed EXIF, GPS location)');
+  });
+
+  describe('reference detection through the metadata cache', () => {
+    const url = 'https://res.cloudinary.com/demo/image/upload/v1/photo.png';
+    const file = () => ({ extension: 'png', name: 'photo.png', basename: 'photo', path: 'attachments/photo.png', stat: { ctime: Date.now() } }) as any;
+    const settings: any = { autoUploadOnFileAdd: true, cloudName: 'demo', uploadPreset: 'preset' };
+    class MockUploader {
+      upload = vi.fn().mockResolvedValue(url);
+    }
+
+    function makeMetadataCache(resolvedLinks: Record<string, Record<string, number>> = {}) {
+      const handlers: Record<string, Array<(...args: any[]) => void>> = {};
+      return {
+        resolvedLinks,
+        on: vi.fn((name: string, handler: (...args: any[]) => void) => {
+          (handlers[name] ??= []).push(handler);
+          return { name, handler };
+        }),
+        offref: vi.fn((ref: any) => handlers[ref.name].splice(handlers[ref.name].indexOf(ref.handler), 1)),
+        getFirstLinkpathDest: (linkpath: string) => (linkpath === 'photo.png' ? { path: 'attachments/photo.png' } : null),
+        trigger: (name: string, ...args: any[]) => [...(handlers[name] ?? [])].forEach((handler) => handler(...args)),
+        handlers,
+      };
+    }
+
+    it('uploads a file embedded in a note that is not focused and rewrites that note', async () => {
+      const notes: Record<string, string> = { 'Journal/Today.md': 'Synced ![[photo.png]]' };
+      const app: any = {
+        metadataCache: makeMetadataCache({ 'Journal/Today.md': { 'attachments/photo.png': 1 }, 'Other.md': { 'x.png': 1 } }),
+        vault: {
+          readBinary: vi.fn().mockResolvedValue(new Uint8Array([1, 2, 3]).buffer),
+          adapter: { exists: vi.fn().mockResolvedValue(false) },
+          getAbstractFileByPath: (path: string) => (path in notes ? { path, basename: path.replace(/^.*\//, '').replace(/\.md$/, '') } : null),
+          process: vi.fn(async (note: any, fn: (content: string) => string) => (notes[note.path] = fn(notes[note.path]))),
+        },
+        workspace: { getActiveViewOfType: vi.fn().mockReturnValue(null), getLeavesOfType: () => [] },
+      };
+
+      await processFileCreate(app, settings, file(), MockUploader as any);
+
+      expect(notes['Journal/Today.md']).toBe(`Synced ![](${url})`);
+      expect(app.metadataCache.on).not.toHaveBeenCalled();
+    });
+
+    it('waits for the changed event of the note linking the file and replaces it in the open editor', async () => {
+      const metadataCache = makeMetadataCache();
+      const editor: any = { getValue: () => 'Trip ![](photo.png)', setValue: vi.fn() };
+      const app: any = {
+        metadataCache,
+        vault: { readBinary: vi.fn().mockResolvedValue(new Uint8Array([4, 5, 6]).buffer), adapter: { exists: vi.fn().mockResolvedValue(false) }, getAbstractFileByPath: () => null },
+        workspace: { getActiveViewOfType: vi.fn().mockReturnValue(null), getLeavesOfType: () => [{ view: { file: { path: 'Trips/Rome.md' }, editor } }] },
+      };
+
+      const done = processFileCreate(app, settings, file(), MockUploader as any);
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      metadataCache.trigger('changed', { path: 'Trips/Other.md' }, '', { embeds: [{ link: 'other.png' }] });
+      metadataCache.trigger('changed', { path: 'Trips/Rome.md' }, '', { embeds: [{ link: 'photo.png' }] });
+      await done;
+
+      expect(editor.setValue).toHaveBeenCalledWith(`Trip ![](${url})`);
+      // Listeners are removed once the note is found
+      expect(metadataCache.offref).toHaveBeenCalledTimes(2);
+      expect(Object.values(metadataCache.handlers).flat()).toEqual([]);
+    });
+
+    it('gives up after the configured reference wait', async () => {
+      const metadataCache = makeMetadataCache();
+      const app: any = { metadataCache, vault: { readBinary: vi.fn() }, workspace: {} };
+
+      await processFileCreate(app, { ...settings, referenceTimeoutSeconds: 0.05 }, file(), MockUploader as any);
+
+      expect(app.vault.readBinary).not.toHaveBeenCalled();
+      expect(metadataCache.offref).toHaveBeenCalledTimes(2);
+    });
+  });
 });
@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { CloudinaryUploader } from '../../src/cloudinary';
+import { buildResourceEmbed, buildThumbnailUrl } from '../../src/media-library';
+
+const resource = (public_id: string, extra: any = {}) => ({
+  public_id,
+  resource_type: 'image',
+  type: 'upload',
+  format: 'png',
+  version: 3,
+  secure_url: `https://res.cloudinary.com/demo/image/upload/v3/${public_id}.png`,
+  ...extra,
+});
+
+// Minimal Admin API stand-in: prefix listing with two pages and a tag listing, behind basic auth
+function startAdminServer() {
+  const requests: URL[] = [];
+  const server = createServer((req, res) => {
+    const url = new URL(req.url || '', 'http://localhost');
+    requests.push(url);
+    if (req.headers.authorization !== `Basic ${Buffer.from('key:secret').toString('base64')}`) {
+      res.writeHead(401).end(JSON.stringify({ error: { message: 'Invalid credentials' } }));
+      return;
+    }
+    res.setHeader('Content-Type', 'application/json');
+    if (url.pathname === '/demo/resources/image/upload') {
+      const page2 = url.searchParams.get('next_cursor') === 'c2';
+      const body = page2 ? { resources: [resource('notes/b')] } : { resources: [resource('notes/a')], next_cursor: 'c2' };
+      return res.end(JSON.stringify(body));
+    }
+    if (url.pathname === '/demo/resources/image/tags/cover') {
+      return res.end(JSON.stringify({ resources: [resource('notes/a'), resource('other/c')] }));
+    }
+    res.writeHead(404).end(JSON.stringify({ error: { message: 'Not found' } }));
+  });
+  return { server, requests };
+}
+
+describe('Cloudinary media library', () => {
+  let admin: ReturnType<typeof startAdminServer>;
+  let baseUrl = '';
+
+  beforeAll(async () => {
+    admin = startAdminServer();
+    await new Promise<void>((resolve) => admin.server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(admin.server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => (admin.server as Server).close(resolve));
+  });
+
+  beforeEach(() => {
+    admin.requests.length = 0;
+  });
+
+  it('pages through a folder with next_cursor', async () => {
+    const uploader = new CloudinaryUploader({ cloud_name: 'demo', api_key: 'key', api_secret: 'secret', api_base_url: baseUrl });
+
+    const first = await uploader.listResources({ folder: '/notes/', max_results: 1 });
+    expect(first.resources.map((r) => r.public_id)).toEqual(['notes/a']);
+    expect(first.next_cursor).toBe('c2');
+    const second = await uploader.listResources({ folder: 'notes', max_results: 1, next_cursor: first.next_cursor });
+    expect(second.resources.map((r) => r.public_id)).toEqual(['notes/b']);
+    expect(second.next_cursor).toBeUndefined();
+
+    expect(admin.requests[0].searchParams.get('prefix')).toBe('notes/');
+    expect(admin.requests[0].searchParams.get('max_results')).toBe('1');
+    expect(admin.requests[1].searchParams.get('next_cursor')).toBe('c2');
+  });
+
+  it('lists by tag and applies the prefix to the page', async () => {
+    const uploader = new CloudinaryUploader({ cloud_name: 'demo', api_key: 'key', api_secret: 'secret', api_base_url: baseUrl });
+    const page = await uploader.listResources({ tag: 'cover', prefix: 'notes/' });
+    expect(page.resources.map((r) => r.public_id)).toEqual(['notes/a']);
+    expect(admin.requests[0].searchParams.has('prefix')).toBe(false);
+  });
+
+  it('reports Admin API errors and requires the secret', async () => {
+    const wrong = new CloudinaryUploader({ cloud_name: 'demo', api_key: 'key', api_secret: 'nope', api_base_url: baseUrl });
+    await expect(wrong.listResources()).rejects.toThrow('Listing resources failed: 401 Invalid credentials');
+
+    const unsigned = new CloudinaryUploader({ cloud_name: 'demo', upload_preset: 'preset', api_base_url: baseUrl });
+    await expect(unsigned.listResources()).rejects.toThrow('API key and secret required to browse the media library');
+    expect(admin.requests).toHaveLength(1);
+  });
+
+  it('builds thumbnails from delivery URLs and embeds by resource kind', () => {
+    expect(buildThumbnailUrl(resource('notes/my shot'), 'demo')).toBe(
+      'https://res.cloudinary.com/demo/image/upload/c_fill,g_auto,w_160,h_160/v3/notes/my%20shot.png'
+    );
+    const clip = resource('clips/intro', { resource_type: 'video', format: 'mp4', secure_url: 'https://res.cloudinary.com/demo/video/upload/v3/clips/intro.mp4' });
+    expect(buildThumbnailUrl(clip, 'demo')).toBe('https://res.cloudinary.com/demo/video/upload/c_fill,g_auto,w_160,h_160,so_0/v3/clips/intro.jpg');
+    const song = resource('audio/song', { resource_type: 'video', format: 'mp3' });
+    expect(buildThumbnailUrl(song, 'demo')).toBeUndefined();
+
+    expect(buildResourceEmbed(resource('notes/a'))).toBe('![a](https://res.cloudinary.com/demo/image/upload/v3/notes/a.png)');
+    expect(buildResourceEmbed(clip)).toBe('<video src="https://res.cloudinary.com/demo/video/upload/v3/clips/intro.mp4" controls></video>');
+    const profile = { transformationProfiles: 'Web = w_800', defaultTransformationProfile: 'Web' };
+    expect(buildResourceEmbed(clip, profile)).toBe('<video src="https://res.cloudinary.com/demo/video/upload/v3/clips/intro.mp4" controls></video>');
+    expect(buildResourceEmbed(resource('docs/spec.pdf', { resource_type: 'raw', secure_url: 'https://x/spec.pdf' }))).toBe('[spec.pdf](https://x/spec.pdf)');
+  });
+});
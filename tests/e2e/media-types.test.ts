@@ -0,0 +1,212 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { buildCacheEntry, CloudinaryCache } from '../../src/cache';
+import { CloudinaryUploader } from '../../src/cloudinary';
+import { processFileCreate, replaceReferencesInContent, resetAutoUploadWarnings } from '../../src/file-handler';
+import { buildEmbed, getMediaKind } from '../../src/media';
+import { createMemoryAdapter } from '../__mocks__/vault-adapter';
+
+function jsonResponse(body: any) {
+  return { ok: true, status: 200, json: async () => body, text: async () => JSON.stringify(body) };
+}
+
+function makeFile(path: string): any {
+  const name = path.split('/').pop() as string;
+  return { path, name, basename: name.replace(/\.[^.]+$/, ''), extension: name.split('.').pop(), stat: { ctime: Date.now() } };
+}
+
+describe('media types', () => {
+  beforeEach(() => {
+    resetAutoUploadWarnings();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('maps extensions to kinds with the configured lists', () => {
+    expect(getMediaKind('PNG', {})).toBe('image');
+    expect(getMediaKind('mp4', {})).toBe('video');
+    expect(getMediaKind('m4a', {})).toBe('audio');
+    expect(getMediaKind('pdf', {})).toBe('document');
+    expect(getMediaKind('zip', {})).toBeUndefined();
+    // An emptied list disables the kind; extra extensions can be added with or without a dot
+    expect(getMediaKind('mp4', { videoExtensions: '' })).toBeUndefined();
+    expect(getMediaKind('mkv', { videoExtensions: 'mp4, .MKV' })).toBe('video');
+  });
+
+  it('uploads to the Cloudinary endpoint of the resource type', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(jsonResponse({ secure_url: 'https://res.cloudinary.com/demo/video/upload/v1/clip.mp4' }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const uploader = new CloudinaryUploader({ cloud_name: 'demo', upload_preset: 'preset' });
+    await uploader.upload(new Blob(['x']), 'clip.mp4', { kind: 'video' });
+    await uploader.upload(new Blob(['x']), 'song.mp3', { kind: 'audio' });
+    await uploader.upload(new Blob(['x']), 'paper.pdf', { kind: 'document' });
+    await uploader.upload(new Blob(['x']), 'image.png');
+    await new CloudinaryUploader({ cloud_name: 'demo', upload_preset: 'preset', auto_resource_type: true }).upload(new Blob(['x']), 'clip.mp4', {
+      kind: 'video',
+    });
+
+    expect(fetchMock.mock.calls.map(([url]) => url.replace('https://api.cloudinary.com/v1_1/demo', ''))).toEqual([
+      '/video/upload',
+      '/video/upload',
+      '/raw/upload',
+      '/image/upload',
+      '/auto/upload',
+    ]);
+  });
+
+  it('builds the embed of each kind', () => {
+    expect(buildEmbed('image', 'https://x/a.png', 'alt')).toBe('![alt](https://x/a.png)');
+    expect(buildEmbed('video', 'https://x/a.mp4')).toBe('<video src="https://x/a.mp4" controls></video>');
+    expect(buildEmbed('audio', 'https://x/a.mp3')).toBe('<audio src="https://x/a.mp3" controls></audio>');
+    expect(buildEmbed('document', 'https://x/a.pdf', 'a.pdf')).toBe('[a.pdf](https://x/a.pdf)');
+
+    // Local copies keep a regular embed whatever the kind
+    const file = makeFile('rec.mp4');
+    expect(replaceReferencesInContent('![[rec.mp4]]', file, 'assets/rec.mp4')).toBe('![](assets/rec.mp4)');
+    expect(replaceReferencesInContent('![[rec.mp4]]', file, 'https://cdn/rec.mp4')).toBe('<video src="https://cdn/rec.mp4" controls></video>');
+    expect(replaceReferencesInContent('![[paper.pdf]]', makeFile('paper.pdf'), 'https://cdn/paper.pdf')).toBe('[paper.pdf](https://cdn/paper.pdf)');
+  });
+
+  it('auto-uploads a screen recording and records its resource type in the shared cache', async () => {
+    const file = makeFile('notes/recording.mp4');
+    const url = 'https://res.cloudinary.com/demo/video/upload/v1/recording.mp4';
+    const store: Record<string, string> = {};
+    let content = `Demo:\n![[recording.mp4]]\n`;
+    const editor: any = {
+      getValue: () => content,
+      setValue: vi.fn((value: string) => (content = value)),
+    };
+    const app: any = {
+      vault: {
+        readBinary: vi.fn().mockResolvedValue(new Uint8Array([1, 2, 3])),
+        adapter: createMemoryAdapter(store),
+      },
+      workspace: { getActiveViewOfType: vi.fn().mockReturnValue({ editor }) },
+    };
+    const upload = vi.fn().mockResolvedValue(url);
+    class MockUploader {
+      upload = upload;
+    }
+
+    const settings: any = { autoUploadOnFileAdd: true, cloudName: 'demo', uploadPreset: 'preset', cacheFilePath: 'cache.json' };
+    await processFileCreate(app, settings, file, MockUploader);
+
+    expect(upload.mock.calls[0][0].type).toBe('video/mp4');
+    expect(upload.mock.calls[0][2].kind).toBe('video');
+    expect(content).toBe(`Demo:\n<video src="${url}" controls></video>\n`);
+    const [entry] = Object.values(JSON.parse(store['cache.json'])) as any[];
+    expect(entry).toMatchObject({ url, filename: 'recording.mp4', resource_type: 'video' });
+  });
+
+  it('links the default transformation profile while the cache keeps the original URL', async () => {
+    const file = makeFile('notes/shot.png');
+    const url = 'https://res.cloudinary.com/demo/image/upload/v1/shot.png';
+    const store: Record<string, string> = {};
+    let content = `![[shot.png]]`;
+    const editor: any = { getValue: () => content, setValue: vi.fn((value: string) => (content = value)) };
+    const app: any = {
+      vault: {
+        readBinary: vi.fn().mockResolvedValue(new Uint8Array([4, 5, 6])),
+        adapter: createMemoryAdapter(store),
+      },
+      workspace: { getActiveViewOfType: vi.fn().mockReturnValue({ editor }) },
+    };
+    class MockUploader {
+      upload = vi.fn().mockResolvedValue(url);
+    }
+
+    const settings: any = {
+      autoUploadOnFileAdd: true,
+      cloudName: 'demo',
+      uploadPreset: 'preset',
+      cacheFilePath: 'cache.json',
+      transformationProfiles: 'Note width = w_800,c_limit,f_auto,q_auto',
+      defaultTransformationProfile: 'Note width',
+    };
+    await processFileCreate(app, settings, file, MockUploader);
+
+    expect(content).toBe('![](https://res.cloudinary.com/demo/image/upload/w_800,c_limit,f_auto,q_auto/v1/shot.png)');
+    const [entry] = Object.values(JSON.parse(store['cache.json'])) as any[];
+    expect(entry.url).toBe(url);
+  });
+
+  it('writes a responsive <img> sized from the upload result', async () => {
+    const file = makeFile('notes/wide.png');
+    const url = 'https://res.cloudinary.com/demo/image/upload/v1/wide.png';
+    let content = `![[wide.png|Wide]]`;
+    const editor: any = { getValue: () => content, setValue: vi.fn((value: string) => (content = value)) };
+    const app: any = {
+      vault: { readBinary: vi.fn().mockResolvedValue(new Uint8Array([7])) },
+      workspace: { getActiveViewOfType: vi.fn().mockReturnValue({ editor }) },
+    };
+    class MockUploader {
+      upload = vi.fn().mockResolvedValue({ url, public_id: 'wide', width: 1000, height: 500 });
+    }
+
+    const settings: any = { autoUploadOnFileAdd: true, cloudName: 'demo', uploadPreset: 'preset', imageOutputMode: 'responsive', responsiveBreakpoints: '800' };
+    await processFileCreate(app, settings, file, MockUploader);
+
+    const small = 'https://res.cloudinary.com/demo/image/upload/c_limit,w_800/v1/wide.png';
+    expect(content).toBe(`<img src="${url}" srcset="${small} 800w, ${url} 1000w" sizes="(max-width: 800px) 100vw, 800px" width="1000" height="500" alt="Wide">`);
+  });
+
+  it('sizes the responsive <img> from the shared cache on a cache hit', async () => {
+    const file = makeFile('notes/wide.png');
+    const url = 'https://res.cloudinary.com/demo/image/upload/v1/wide.png';
+    const data = new Uint8Array([7]);
+    const store: Record<string, string> = {};
+    let content = `![[wide.png|Wide]]`;
+    const editor: any = { getValue: () => content, setValue: vi.fn((value: string) => (content = value)) };
+    const app: any = {
+      vault: {
+        readBinary: vi.fn().mockResolvedValue(data.buffer),
+        adapter: createMemoryAdapter(store),
+      },
+      workspace: { getActiveViewOfType: vi.fn().mockReturnValue({ editor }) },
+    };
+    await new CloudinaryCache(app, 'cache.json').addEntry(
+      await CloudinaryCache.calculateHash(data.buffer),
+      buildCacheEntry({ url, public_id: 'wide', width: 1000, height: 500 }, 'wide.png')
+    );
+    const upload = vi.fn();
+    class MockUploader {
+      upload = upload;
+    }
+
+    const settings: any = {
+      autoUploadOnFileAdd: true,
+      cloudName: 'demo',
+      uploadPreset: 'preset',
+      cacheFilePath: 'cache.json',
+      imageOutputMode: 'responsive',
+      responsiveBreakpoints: '800',
+    };
+    await processFileCreate(app, settings, file, MockUploader);
+
+    expect(upload).not.toHaveBeenCalled();
+    const small = 'https://res.cloudinary.com/demo/image/upload/c_limit,w_800/v1/wide.png';
+    expect(content).toBe(`<img src="${url}" srcset="${small} 800w, ${url} 1000w" sizes="(max-width: 800px) 100vw, 800px" width="1000" height="500" alt="Wide">`);
+  });
+
+  it('keeps the default image profile out of video and audio embeds', () => {
+    const settings = { transformationProfiles: 'Note width = w_800,c_limit,f_auto,q_auto', defaultTransformationProfile: 'Note width' };
+    const clip = 'https://res.cloudinary.com/demo/video/upload/v1/clip.mp4';
+    const song = 'https://res.cloudinary.com/demo/video/upload/v1/song.mp3';
+
+    expect(replaceReferencesInContent('![[clip.mp4]]', makeFile('clip.mp4'), clip, settings)).toBe(`<video src="${clip}" controls></video>`);
+    expect(replaceReferencesInContent('![[song.mp3]]', makeFile('song.mp3'), song, settings)).toBe(`<audio src="${song}" controls></audio>`);
+  });
+
+  it('ignores files outside the extension lists', async () => {
+    const upload = vi.fn();
+    class MockUploader {
+      upload = upload;
+    }
+    const app: any = { vault: { readBinary: vi.fn() }, workspace: { getActiveViewOfType: vi.fn() } };
+    await processFileCreate(app, { autoUploadOnFileAdd: true, cloudName: 'demo', uploadPreset: 'p' }, makeFile('archive.zip'), MockUploader);
+    expect(app.vault.readBinary).not.toHaveBeenCalled();
+    expect(upload).not.toHaveBeenCalled();
+  });
+});
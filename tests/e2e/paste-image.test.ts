@@ -1,5 +1,7 @@
 import { describe, it, expect, vi } from 'vitest';
-import { pasteClipboardImage } from '../../src/paste';
+import { buildCacheEntry, CloudinaryCache } from '../../src/cache';
+import { formatBatchSummary, pasteClipboardImage, pasteClipboardImages, uploadImageBlobs } from '../../src/paste';
+import { createMemoryAdapter } from '../__mocks__/vault-adapter';
 
 describe('pasteClipboardImage', () => {
   it('uploads image from clipboard using provided uploader', async () => {
@@ -31,3 +33,93 @@ describe('pasteClipboardImage', () => {
     await expect(pasteClipboardImage({ debugLogs: true }, undefined, clipboard as any)).rejects.toThrow('No image in clipboard');
   });
 });
+
+describe('batch upload', () => {
+  const settings = { cloudName: 'demo', uploadPreset: 'preset' };
+  const image = (data: string, filename: string) => ({ blob: new Blob([data], { type: 'image/png' }), filename });
+
+  it('uploads every clipboard image with bounded concurrency, in order', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const upload = vi.fn(async (_blob: Blob, filename?: string) => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, filename!.endsWith('-1.png') ? 20 : 5));
+      inFlight--;
+      return `https://res.cloudinary.com/demo/image/upload/${filename}`;
+    });
+    const clipboard = {
+      read: async () =>
+        ['a', 'b', 'c', 'd', 'e'].map((data) => ({ types: ['text/html', 'image/png'], getType: async () => new Blob([data], { type: 'image/png' }) })),
+    };
+
+    const result = await pasteClipboardImages({ ...settings, uploadConcurrency: 2 }, { upload }, clipboard);
+
+    expect(maxInFlight).toBe(2);
+    expect(result.items.map((item) => item.url!.replace(/.*\/image-\d+/, ''))).toEqual(['-1.png', '-2.png', '-3.png', '-4.png', '-5.png']);
+    expect(result).toMatchObject({ uploaded: 5, cached: 0, failed: 0 });
+    expect(formatBatchSummary(result)).toBe('✅ 5 images: 5 uploaded');
+  });
+
+  it('uploads identical images once and counts cache hits and failures', async () => {
+    const store: Record<string, string> = {};
+    const app: any = {
+      vault: { adapter: createMemoryAdapter(store) },
+    };
+    const cache = new CloudinaryCache(app, 'cache.json');
+    await cache.addEntry(
+      await CloudinaryCache.calculateHash(await new Blob(['known']).arrayBuffer()),
+      buildCacheEntry({ url: 'https://cdn/known.png', public_id: 'known', width: 640, height: 480 }, 'known.png')
+    );
+    const upload = vi.fn(async (_blob: Blob, filename?: string) => {
+      if (filename === 'broken.png') throw new Error('Upload failed: 400 Bad Request');
+      return `https://cdn/${filename}`;
+    });
+
+    const result = await uploadImageBlobs(
+      settings,
+      [image('same', 'one.png'), image('known', 'known.png'), image('same', 'two.png'), image('other', 'broken.png')],
+      { upload },
+      cache
+    );
+
+    expect(upload.mock.calls.map((call) => call[1])).toEqual(['one.png', 'broken.png']);
+    expect(result.items.map((item) => item.url)).toEqual(['https://cdn/one.png', 'https://cdn/known.png', 'https://cdn/one.png', undefined]);
+    // Cache hits keep the size recorded with the original upload
+    expect(result.items[1].asset).toMatchObject({ url: 'https://cdn/known.png', width: 640, height: 480 });
+    expect(result).toMatchObject({ uploaded: 1, cached: 2, failed: 1, cancelled: 0 });
+    expect(formatBatchSummary(result)).toBe('⚠️ 4 images: 1 uploaded, 2 from cache, 1 failed (Upload failed: 400 Bad Request)');
+  });
+
+  it('uploads the re-encoded image but caches it under the hash of the original bytes', async () => {
+    const store: Record<string, string> = {};
+    const app: any = {
+      vault: { adapter: createMemoryAdapter(store) },
+    };
+    const cache = new CloudinaryCache(app, 'cache.json');
+    const processing = { ...settings, processImagesBeforeUpload: true, reencodeFormat: 'webp' };
+    const encoder = vi.fn(async () => new Blob(['small'], { type: 'image/webp' }));
+    const upload = vi.fn(async (_blob: Blob, filename?: string) => `https://cdn/${filename}`);
+    const screenshot = () => image('a large screenshot', 'shot.png');
+
+    const first = await uploadImageBlobs(processing, [screenshot()], { upload }, cache, { encoder });
+    const second = await uploadImageBlobs(processing, [screenshot()], { upload }, cache, { encoder });
+
+    expect(upload).toHaveBeenCalledTimes(1);
+    expect(upload.mock.calls[0][0]).toMatchObject({ type: 'image/webp', size: 5 });
+    expect(first.items[0].url).toBe('https://cdn/shot.webp');
+    expect(second).toMatchObject({ uploaded: 0, cached: 1 });
+    const originalHash = await CloudinaryCache.calculateHash(await new Blob(['a large screenshot']).arrayBuffer());
+    expect(Object.keys(JSON.parse(store['cache.json']))).toEqual([originalHash]);
+  });
+
+  it('names uploads after the folder and public_id templates of the note they are pasted in', async () => {
+    const upload = vi.fn(async (_blob: Blob, _filename?: string, options?: any) => `https://res.cloudinary.com/demo/image/upload/${options.folder}/${options.public_id}.png`);
+    const named = { ...settings, cloudinaryFolder: 'obsidian', folderTemplate: '{note_folder}/{note}', publicIdTemplate: '{filename}' };
+
+    const result = await uploadImageBlobs(named, [image('a', 'Diagram 1.png')], { upload }, undefined, { note: { path: 'Work/Q3 Plan.md', basename: 'Q3 Plan' } });
+
+    expect(upload).toHaveBeenCalledWith(expect.anything(), 'Diagram 1.png', expect.objectContaining({ folder: 'obsidian/work/q3-plan', public_id: 'diagram-1', overwrite: false }));
+    expect(result.items[0].url).toBe('https://res.cloudinary.com/demo/image/upload/obsidian/work/q3-plan/diagram-1.png');
+  });
+});
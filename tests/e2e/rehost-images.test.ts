@@ -0,0 +1,118 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { CloudinaryCache } from '../../src/cache';
+import { CloudinaryUploader } from '../../src/cloudinary';
+import { handleEditorPaste } from '../../src/editor-events';
+import { findRemoteImages, formatRehostSummary, rehostHtmlImages, resetRehostedUrls, uploadImageFromUrl } from '../../src/remote-images';
+import { createMemoryAdapter } from '../__mocks__/vault-adapter';
+
+const copyOf = (remoteUrl: string) => `https://res.cloudinary.com/demo/image/upload/v9/${remoteUrl.split('/').pop()}`;
+
+function makeApp(store: Record<string, string> = {}) {
+  return {
+    vault: { adapter: createMemoryAdapter(store) },
+  };
+}
+
+const html =
+  '<p>Intro <img src="https://blog.example.com/a.png" srcset="https://blog.example.com/a-2x.png 2x" alt="Chart"></p>' +
+  '<p><img alt="Logo" src="https://cdn.example.org/img/logo.svg?v=2&amp;s=1"> <img src="/relative.png"> ' +
+  '<img src="https://res.cloudinary.com/demo/image/upload/v1/mine.png"> <img src="https://blog.example.com/a.png"></p>';
+
+describe('re-hosting remote images', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    resetRehostedUrls();
+  });
+
+  it('finds remote images that are not on Cloudinary yet', () => {
+    expect(findRemoteImages(html)).toEqual(['https://blog.example.com/a.png', 'https://cdn.example.org/img/logo.svg?v=2&s=1']);
+  });
+
+  it('asks Cloudinary to fetch the remote file with file=<url>', async () => {
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: true,
+      status: 200,
+      json: async () => ({ secure_url: copyOf('a.png'), public_id: 'a', width: 640, height: 480 }),
+    });
+    vi.stubGlobal('fetch', fetchMock);
+    const uploader = new CloudinaryUploader({ cloud_name: 'demo', upload_preset: 'preset', upload_options: { folder: 'web' } });
+
+    const asset = await uploader.uploadFromUrl('https://blog.example.com/a.png');
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://api.cloudinary.com/v1_1/demo/image/upload');
+    const form = init.body as FormData;
+    expect(form.get('file')).toBe('https://blog.example.com/a.png');
+    expect(form.get('upload_preset')).toBe('preset');
+    expect(form.get('folder')).toBe('web');
+    expect(asset).toMatchObject({ url: copyOf('a.png'), width: 640 });
+  });
+
+  it('converts the HTML to markdown pointing at the Cloudinary copies', async () => {
+    const uploadFromUrl = vi.fn(async (remoteUrl: string) => {
+      if (remoteUrl.includes('logo')) throw new Error('Upload failed: 400 Resource not found');
+      return { url: copyOf(remoteUrl) };
+    });
+
+    const result = await rehostHtmlImages({ debugLogs: false }, html, { uploadFromUrl });
+
+    expect(uploadFromUrl).toHaveBeenCalledTimes(2);
+    expect(result.markdown).toBe(
+      `Intro ![Chart](${copyOf('a.png')})\n\n` +
+        '![Logo](https://cdn.example.org/img/logo.svg?v=2&s=1) ![](/relative.png) ' +
+        `![](https://res.cloudinary.com/demo/image/upload/v1/mine.png) ![](${copyOf('a.png')})`
+    );
+    expect(formatRehostSummary(result)).toBe('⚠️ Re-hosted 1 of 2 images, 1 kept on their original host (Upload failed: 400 Resource not found)');
+  });
+
+  it('fetches a URL once per session without writing it to the shared cache', async () => {
+    const uploadFromUrl = vi.fn(async (remoteUrl: string) => ({ url: copyOf(remoteUrl), public_id: 'photo', width: 640, height: 480 }));
+    const store: Record<string, string> = {};
+    const cache = new CloudinaryCache(makeApp(store) as any, 'cache.json');
+
+    const first = await uploadImageFromUrl({}, 'https://blog.example.com/photo.jpg', { uploadFromUrl }, cache);
+    const second = await uploadImageFromUrl({}, 'https://blog.example.com/photo.jpg', { uploadFromUrl }, cache);
+
+    expect(uploadFromUrl).toHaveBeenCalledTimes(1);
+    expect(first).toMatchObject({ url: copyOf('photo.jpg'), filename: 'photo.jpg' });
+    // The copy keeps its size for the link template and responsive output
+    expect(second).toMatchObject({ url: copyOf('photo.jpg'), cached: true, asset: { width: 640, height: 480 } });
+    // Shared cache keys are hashes of file bytes: remote URLs stay out of it
+    expect(store['cache.json']).toBeUndefined();
+
+    // A new session copies the image again, in case it changed at the same URL
+    resetRehostedUrls();
+    await uploadImageFromUrl({}, 'https://blog.example.com/photo.jpg', { uploadFromUrl }, cache);
+    expect(uploadFromUrl).toHaveBeenCalledTimes(2);
+  });
+
+  it('re-hosts pasted HTML from the editor paste event when enabled', async () => {
+    const settings = { cloudName: 'demo', uploadPreset: 'preset', rehostPastedImages: true, transformationProfiles: 'Web = w_800', defaultTransformationProfile: 'Web' };
+    let text = 'Before:';
+    const editor = {
+      getCursor: () => ({ line: 0, ch: text.length }),
+      getValue: () => text,
+      offsetToPos: (offset: number) => ({ line: 0, ch: offset }),
+      replaceRange: vi.fn((insert: string, from: any, to: any) => (text = text.slice(0, from.ch) + insert + text.slice(to.ch))),
+    };
+    const notify = vi.fn();
+    const uploadFromUrl = vi.fn(async (remoteUrl: string) => ({ url: copyOf(remoteUrl) }));
+    const paste = (data: string): any => ({
+      defaultPrevented: false,
+      preventDefault: vi.fn(),
+      clipboardData: { files: [], items: [], getData: (type: string) => (type === 'text/html' ? data : '') },
+    });
+
+    const evt = paste('<img src="https://blog.example.com/a.png" alt="A">');
+    expect(await handleEditorPaste(evt, editor, makeApp(), settings, { uploader: { uploadFromUrl }, notify })).toBe(true);
+    expect(evt.preventDefault).toHaveBeenCalled();
+    expect(text).toBe('Before:![A](https://res.cloudinary.com/demo/image/upload/w_800/v9/a.png)');
+    expect(notify).toHaveBeenLastCalledWith('✅ Re-hosted 1 image on Cloudinary');
+
+    const textOnly = paste('<p>No images here</p>');
+    expect(await handleEditorPaste(textOnly, editor, makeApp(), settings, { uploader: { uploadFromUrl }, notify })).toBe(false);
+    expect(textOnly.preventDefault).not.toHaveBeenCalled();
+    const disabled = paste('<img src="https://blog.example.com/a.png">');
+    expect(await handleEditorPaste(disabled, editor, makeApp(), { ...settings, rehostPastedImages: false }, { uploader: { uploadFromUrl } })).toBe(false);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { CloudinaryUploader } from '../../src/cloudinary';
+import { createUploadProvider, providerCanUpload } from '../../src/provider';
+
+const uploadResponse = {
+  ok: true,
+  status: 200,
+  json: async () => ({ secure_url: 'https://res.cloudinary.com/demo/image/upload/v1/abc.png', public_id: 'abc', version: 1 }),
+  text: async () => '',
+};
+
+describe('Remote signing endpoint', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('asks the signing endpoint for a signature and performs a signed upload without the secret', async () => {
+    const fetchMock = vi.fn().mockImplementation(async (url: string, init: any) => {
+      if (url === 'https://sign.example.com/sign') {
+        const { params_to_sign } = JSON.parse(init.body);
+        expect(params_to_sign).toEqual({ upload_preset: 'signed_preset', timestamp: expect.stringMatching(/^\d+$/) });
+        return { ok: true, status: 200, text: async () => JSON.stringify({ signature: 'sig123', timestamp: 1700000000, api_key: 'server-key' }) };
+      }
+      return uploadResponse;
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const settings = { cloudName: 'demo', uploadPreset: 'signed_preset', signatureEndpoint: 'https://sign.example.com/sign' };
+    const uploader = createUploadProvider(settings);
+    const { url } = await uploader.upload(new Blob(['png'], { type: 'image/png' }), 'a.png');
+
+    expect(url).toBe('https://res.cloudinary.com/demo/image/upload/v1/abc.png');
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    const [uploadUrl, init] = fetchMock.mock.calls[1];
+    expect(uploadUrl).toBe('https://api.cloudinary.com/v1_1/demo/image/upload');
+    const form = init.body as FormData;
+    expect(form.get('signature')).toBe('sig123');
+    expect(form.get('timestamp')).toBe('1700000000');
+    expect(form.get('api_key')).toBe('server-key');
+    expect(form.get('upload_preset')).toBe('signed_preset');
+  });
+
+  it('fails when the signing endpoint does not return a signature', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: true, status: 200, text: async () => '{"timestamp":1}' }));
+    const uploader = new CloudinaryUploader({ cloud_name: 'demo', api_key: 'key', signature_endpoint: 'https://sign.example.com/sign' });
+    await expect(uploader.upload(new Blob(['x']), 'x.png')).rejects.toThrow('Signing endpoint did not return a signature');
+  });
+
+  it('surfaces signing endpoint HTTP errors', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: false, status: 403, text: async () => 'Forbidden' }));
+    const uploader = new CloudinaryUploader({ cloud_name: 'demo', signature_endpoint: 'https://sign.example.com/sign' });
+    await expect(uploader.upload(new Blob(['x']), 'x.png')).rejects.toThrow('Signing endpoint failed: 403 Forbidden');
+  });
+
+  it('cancels the signing request along with the upload', async () => {
+    const controller = new AbortController();
+    let signing!: () => void;
+    const started = new Promise<void>((resolve) => (signing = resolve));
+    const fetchMock = vi.fn().mockImplementation((_url: string, init: any) => {
+      expect(init.signal).toBe(controller.signal);
+      signing();
+      return new Promise((_resolve, reject) => {
+        init.signal.addEventListener('abort', () => reject(Object.assign(new Error('aborted'), { name: 'AbortError' })));
+      });
+    });
+    vi.stubGlobal('fetch', fetchMock);
+    const uploader = new CloudinaryUploader({ cloud_name: 'demo', api_key: 'key', signature_endpoint: 'https://sign.example.com/sign' });
+
+    const pending = uploader.upload(new Blob(['x']), 'x.png', { signal: controller.signal });
+    await started;
+    controller.abort();
+    await expect(pending).rejects.toThrow('Upload cancelled');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('counts a signing endpoint as a ready Cloudinary configuration', () => {
+    expect(providerCanUpload({ cloudName: 'demo' })).toBe(false);
+    expect(providerCanUpload({ cloudName: 'demo', signatureEndpoint: 'https://sign.example.com/sign' })).toBe(true);
+  });
+});
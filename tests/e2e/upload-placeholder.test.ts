@@ -0,0 +1,90 @@
+import { describe, it, expect, vi } from 'vitest';
+import { buildFailedMarker, finishUploadPlaceholder, insertUploadPlaceholder, replaceUploadPlaceholder } from '../../src/placeholder';
+
+// Single-line editor with a movable cursor
+function createEditor(text = '') {
+  let cursor = text.length;
+  const editor = {
+    getValue: () => text,
+    offsetToPos: (offset: number) => ({ line: 0, ch: offset }),
+    replaceSelection: vi.fn((insert: string) => {
+      text = text.slice(0, cursor) + insert + text.slice(cursor);
+      cursor += insert.length;
+    }),
+    replaceRange: vi.fn((insert: string, from: any, to: any) => {
+      text = text.slice(0, from.ch) + insert + text.slice(to.ch);
+      if (cursor >= to.ch) cursor += insert.length - (to.ch - from.ch);
+    }),
+    type: (typed: string) => editor.replaceSelection(typed),
+    get text() {
+      return text;
+    },
+  };
+  return editor;
+}
+
+function createApp(openNotes: Record<string, any>, files: Record<string, string> = {}) {
+  return {
+    workspace: {
+      getActiveFile: () => ({ path: 'a.md' }),
+      getLeavesOfType: () => Object.entries(openNotes).map(([path, editor]) => ({ view: { file: { path }, editor } })),
+    },
+    vault: {
+      getAbstractFileByPath: (path: string) => (path in files ? { path } : null),
+      process: vi.fn(async (file: { path: string }, fn: (content: string) => string) => (files[file.path] = fn(files[file.path]))),
+    },
+  };
+}
+
+describe('upload placeholders', () => {
+  it('replaces concurrent placeholders in place while the user keeps typing', async () => {
+    const editor = createEditor('Start ');
+    const app = createApp({ 'a.md': editor });
+
+    const first = insertUploadPlaceholder(app, editor, 'image-1.png');
+    editor.type(' between ');
+    const second = insertUploadPlaceholder(app, editor, 'image-2.png');
+    editor.type(' end');
+    expect(first.id).not.toBe(second.id);
+    expect(editor.text).toBe(`Start ${first.text} between ${second.text} end`);
+    expect(first.text).toMatch(/^!\[Uploading image-1\.png…\]\(#upload-[\w-]+\)$/);
+
+    expect(await replaceUploadPlaceholder(app, second, '![two](https://cdn/2.png)')).toBe(true);
+    expect(await finishUploadPlaceholder(app, first, 'image-1.png', [], new Error('Upload failed: 500 Oops [retry]'))).toBe(true);
+    expect(editor.text).toBe(`Start ${buildFailedMarker('image-1.png', 'Upload failed: 500 Oops [retry]')} between ![two](https://cdn/2.png) end`);
+    expect(buildFailedMarker('image-1.png', 'Upload failed: 500 Oops [retry]')).toBe('![❌ Upload failed: image-1.png (Upload failed: 500 Oops (retry))]()');
+  });
+
+  it('writes to the note file once the editor shows another note', async () => {
+    const editor = createEditor('Note A: ');
+    const files: Record<string, string> = {};
+    const openNotes: Record<string, any> = { 'a.md': editor };
+    const app = createApp(openNotes, files);
+    const placeholder = insertUploadPlaceholder(app, editor, 'image.png');
+
+    // The same editor now shows b.md; a.md was saved with the placeholder
+    files['a.md'] = editor.text;
+    delete openNotes['a.md'];
+    openNotes['b.md'] = editor;
+    editor.replaceRange('Note B', { ch: 0 }, { ch: editor.text.length });
+
+    expect(await replaceUploadPlaceholder(app, placeholder, '![image](https://cdn/x.png)')).toBe(true);
+    expect(files['a.md']).toBe('Note A: ![image](https://cdn/x.png)');
+    expect(editor.text).toBe('Note B');
+  });
+
+  it('follows the note to another open editor and gives up when the placeholder was deleted', async () => {
+    const original = createEditor();
+    const other = createEditor();
+    const openNotes: Record<string, any> = { 'a.md': original };
+    const app = createApp(openNotes);
+    const placeholder = insertUploadPlaceholder(app, original, 'image.png');
+
+    openNotes['a.md'] = other;
+    other.replaceSelection(`moved ${placeholder.text}`);
+    expect(await finishUploadPlaceholder(app, placeholder, 'image.png', ['![a](https://cdn/a.png)', '![b](https://cdn/b.png)'])).toBe(true);
+    expect(other.text).toBe('moved ![a](https://cdn/a.png)\n![b](https://cdn/b.png)');
+
+    expect(await replaceUploadPlaceholder(app, placeholder, 'again')).toBe(false);
+  });
+});
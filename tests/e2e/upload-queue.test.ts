@@ -0,0 +1,191 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { TFile } from 'obsidian';
+import { processFileCreate, resetAutoUploadWarnings } from '../../src/file-handler';
+import { getRetryDelay, QUEUE_MAX_DELAY_MS, UploadQueue } from '../../src/queue';
+
+function makeFile(path: string): TFile {
+  const name = path.split('/').pop() as string;
+  return Object.assign(new TFile(), {
+    path,
+    name,
+    basename: name.replace(/\.[^.]+$/, ''),
+    extension: name.split('.').pop() as string,
+    stat: { ctime: Date.now() },
+  });
+}
+
+function makeVault(files: TFile[], notes: Record<string, string>) {
+  const noteFiles = Object.keys(notes).map((path) => makeFile(path));
+  return {
+    readBinary: vi.fn().mockResolvedValue(new Uint8Array([1, 2, 3]).buffer),
+    getAbstractFileByPath: vi.fn().mockImplementation((path: string) => files.find((f) => f.path === path) ?? null),
+    getMarkdownFiles: vi.fn().mockReturnValue(noteFiles),
+    cachedRead: vi.fn().mockImplementation(async (note: TFile) => notes[note.path]),
+    process: vi.fn().mockImplementation(async (note: TFile, fn: (data: string) => string) => {
+      notes[note.path] = fn(notes[note.path]);
+      return notes[note.path];
+    }),
+    delete: vi.fn(),
+  };
+}
+
+describe('upload queue', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('backs off exponentially up to one hour', () => {
+    expect(getRetryDelay(1)).toBe(30 * 1000);
+    expect(getRetryDelay(2)).toBe(60 * 1000);
+    expect(getRetryDelay(4)).toBe(4 * 60 * 1000);
+    expect(getRetryDelay(20)).toBe(QUEUE_MAX_DELAY_MS);
+  });
+
+  it('keeps failing items with their error and only retries them once due', async () => {
+    const file = makeFile('assets/photo.png');
+    const app: any = { vault: makeVault([file], {}) };
+    const settings: any = { uploadPreset: 'preset', cloudName: 'demo' };
+    let now = 1_000_000;
+    const upload = vi.fn().mockRejectedValue(new Error('Failed to fetch'));
+    class FailingUploader {
+      upload = upload;
+    }
+
+    const queue = new UploadQueue(app, settings, async () => {}, { uploaderCtor: FailingUploader, now: () => now });
+    await queue.enqueue(file, new Error('Failed to fetch'));
+    expect(queue.items).toHaveLength(1);
+
+    // Not due yet
+    expect(await queue.processDue()).toEqual({ uploaded: 0, failed: 0, dropped: 0 });
+    expect(upload).not.toHaveBeenCalled();
+
+    now += getRetryDelay(1);
+    expect(await queue.processDue()).toEqual({ uploaded: 0, failed: 1, dropped: 0 });
+    expect(queue.items[0].attempts).toBe(1);
+    expect(queue.items[0].nextAttemptAt).toBe(now + getRetryDelay(2));
+    expect(queue.items[0].lastError).toBe('Failed to fetch');
+
+    // Enqueuing the same file again does not duplicate it
+    await queue.enqueue(file, new Error('Upload failed: 500'));
+    expect(queue.items).toHaveLength(1);
+    expect(queue.items[0].lastError).toBe('Upload failed: 500');
+  });
+
+  it('rewrites every note still pointing at the local file once the retry succeeds', async () => {
+    const file = makeFile('assets/photo one.png');
+    const notes: Record<string, string> = {
+      'a.md': 'Intro\n![[photo one.png|cover]]\n',
+      'b.md': 'See ![](assets/photo%20one.png) here',
+      'c.md': 'Nothing to see',
+    };
+    const app: any = { vault: makeVault([file], notes) };
+    const settings: any = { uploadPreset: 'preset', cloudName: 'demo' };
+    const url = 'https://res.cloudinary.com/demo/image/upload/v1/photo.png';
+    class MockUploader {
+      upload = vi.fn().mockResolvedValue(url);
+    }
+    const notify = vi.fn();
+
+    const queue = new UploadQueue(app, settings, async () => {}, { uploaderCtor: MockUploader, notify });
+    await queue.enqueue(file, 'offline');
+    const result = await queue.processDue(true);
+
+    expect(result.uploaded).toBe(1);
+    expect(queue.items).toHaveLength(0);
+    expect(notes['a.md']).toBe(`Intro\n![cover](${url})\n`);
+    expect(notes['b.md']).toBe(`See ![](${url}) here`);
+    expect(notes['c.md']).toBe('Nothing to see');
+    expect(app.vault.process).toHaveBeenCalledTimes(2);
+    expect(notify).toHaveBeenCalledWith('✅ Queued upload done: photo one.png (2 notes updated)');
+  });
+
+  it('keeps the size reported by the retried upload in the rewritten links', async () => {
+    const file = makeFile('assets/wide.png');
+    const notes: Record<string, string> = { 'a.md': '![[wide.png|Wide]]' };
+    const app: any = { vault: makeVault([file], notes) };
+    const settings: any = { uploadPreset: 'preset', cloudName: 'demo', imageOutputMode: 'responsive', responsiveBreakpoints: '800' };
+    const url = 'https://res.cloudinary.com/demo/image/upload/v1/wide.png';
+    class MockUploader {
+      upload = vi.fn().mockResolvedValue({ url, public_id: 'wide', resource_type: 'image', width: 1000, height: 500 });
+    }
+
+    const queue = new UploadQueue(app, settings, async () => {}, { uploaderCtor: MockUploader, notify: vi.fn() });
+    await queue.enqueue(file, 'offline');
+    expect((await queue.processDue(true)).uploaded).toBe(1);
+
+    const small = 'https://res.cloudinary.com/demo/image/upload/c_limit,w_800/v1/wide.png';
+    expect(notes['a.md']).toBe(`<img src="${url}" srcset="${small} 800w, ${url} 1000w" sizes="(max-width: 800px) 100vw, 800px" width="1000" height="500" alt="Wide">`);
+  });
+
+  it('waits for the run in progress and skips the items removed meanwhile', async () => {
+    const first = makeFile('assets/first.png');
+    const second = makeFile('assets/second.png');
+    const app: any = { vault: makeVault([first, second], {}) };
+    const settings: any = { uploadPreset: 'preset', cloudName: 'demo' };
+    let release!: () => void;
+    const blocked = new Promise<void>((resolve) => (release = resolve));
+    const upload = vi.fn(async (_blob: Blob, filename?: string) => {
+      await blocked;
+      return `https://res.cloudinary.com/demo/image/upload/v1/${filename}`;
+    });
+    class SlowUploader {
+      upload = upload;
+    }
+
+    const queue = new UploadQueue(app, settings, async () => {}, { uploaderCtor: SlowUploader });
+    const firstItem = await queue.enqueue(first, 'offline');
+    const secondItem = await queue.enqueue(second, 'offline');
+    const timerRun = queue.processDue(true);
+    await vi.waitFor(() => expect(upload).toHaveBeenCalledTimes(1));
+
+    // "Retry" while the timer run uploads the same item, then "Drop" on the next one
+    const retried = queue.retry(firstItem.id);
+    await queue.remove(secondItem.id);
+    release();
+
+    expect(await timerRun).toEqual({ uploaded: 1, failed: 0, dropped: 0 });
+    expect(await retried).toBe(true);
+    expect(upload).toHaveBeenCalledTimes(1);
+    expect(queue.items).toHaveLength(0);
+  });
+
+  it('drops items whose local file was deleted', async () => {
+    const app: any = { vault: makeVault([], {}) };
+    const settings: any = {};
+    const queue = new UploadQueue(app, settings, async () => {});
+    await queue.enqueue(makeFile('gone.png'), 'offline');
+
+    expect((await queue.processDue(true)).dropped).toBe(1);
+    expect(queue.items).toHaveLength(0);
+  });
+
+  describe('processFileCreate', () => {
+    beforeEach(() => {
+      resetAutoUploadWarnings();
+    });
+
+    it('reports an offline upload so it can be queued, keeping the local link', async () => {
+      vi.stubGlobal('navigator', { onLine: false });
+      const file = makeFile('notes/image.png');
+      const editor: any = { getValue: () => `![](${file.path})`, setValue: vi.fn() };
+      const app: any = {
+        vault: { readBinary: vi.fn().mockResolvedValue(new Uint8Array(10)) },
+        workspace: { getActiveViewOfType: vi.fn().mockReturnValue({ editor }) },
+      };
+      const upload = vi.fn();
+      class MockUploader {
+        upload = upload;
+      }
+      const onUploadFailed = vi.fn();
+      const notify = vi.fn();
+
+      const settings: any = { autoUploadOnFileAdd: true, cloudName: 'demo', uploadPreset: 'preset' };
+      await processFileCreate(app, settings, file, MockUploader, { notify, onUploadFailed });
+
+      expect(upload).not.toHaveBeenCalled();
+      expect(editor.setValue).not.toHaveBeenCalled();
+      expect(notify).toHaveBeenCalledWith('❌ Upload failed: No network connection');
+      expect(onUploadFailed).toHaveBeenCalledWith(file, expect.any(Error));
+    });
+  });
+});
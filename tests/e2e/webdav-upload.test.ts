@@ -0,0 +1,132 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer, IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+import { processFileCreate, resetAutoUploadWarnings } from '../../src/file-handler';
+import { WebDavUploader } from '../../src/webdav';
+import { createMemoryAdapter } from '../__mocks__/vault-adapter';
+
+// Minimal in-memory WebDAV stand-in: MKCOL, PUT and DELETE behind basic auth
+function startWebDavServer() {
+  const collections = new Set<string>(['/dav']);
+  const files = new Map<string, Buffer>();
+  const requests: { method: string; url: string }[] = [];
+
+  const readBody = (req: IncomingMessage) =>
+    new Promise<Buffer>((resolve) => {
+      const chunks: Buffer[] = [];
+      req.on('data', (c) => chunks.push(c));
+      req.on('end', () => resolve(Buffer.concat(chunks)));
+    });
+
+  const server = createServer(async (req, res) => {
+    const path = decodeURIComponent((req.url || '').replace(/\/+$/, ''));
+    requests.push({ method: req.method || '', url: path });
+    if (req.headers.authorization !== `Basic ${Buffer.from('alice:s3cr3t').toString('base64')}`) {
+      res.writeHead(401).end('Unauthorized');
+      return;
+    }
+    const parent = path.slice(0, path.lastIndexOf('/'));
+    if (req.method === 'MKCOL') {
+      if (collections.has(path)) return res.writeHead(405).end();
+      if (!collections.has(parent)) return res.writeHead(409).end('Parent missing');
+      collections.add(path);
+      return res.writeHead(201).end();
+    }
+    if (req.method === 'PUT') {
+      if (!collections.has(parent)) return res.writeHead(409).end('Parent missing');
+      files.set(path, await readBody(req));
+      return res.writeHead(201).end();
+    }
+    if (req.method === 'DELETE') {
+      const existed = files.delete(path);
+      return res.writeHead(existed ? 204 : 404).end();
+    }
+    res.writeHead(405).end();
+  });
+
+  return { server, collections, files, requests };
+}
+
+describe('WebDAV provider', () => {
+  let dav: ReturnType<typeof startWebDavServer>;
+  let baseUrl = '';
+
+  beforeAll(async () => {
+    dav = startWebDavServer();
+    await new Promise<void>((resolve) => dav.server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(dav.server.address() as AddressInfo).port}/dav`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => (dav.server as Server).close(resolve));
+  });
+
+  beforeEach(() => {
+    resetAutoUploadWarnings();
+    dav.requests.length = 0;
+  });
+
+  it('creates missing folders with MKCOL, PUTs the file and returns the public URL', async () => {
+    const uploader = new WebDavUploader({
+      url: baseUrl,
+      username: 'alice',
+      password: 's3cr3t',
+      folder: 'obsidian/images',
+      public_url_prefix: 'https://share.example.com/images',
+    });
+
+    const { url } = await uploader.upload(new Blob(['png-bytes'], { type: 'image/png' }), 'shot 1.png');
+
+    expect(dav.collections.has('/dav/obsidian')).toBe(true);
+    expect(dav.collections.has('/dav/obsidian/images')).toBe(true);
+    const stored = Array.from(dav.files.keys()).find((p) => p.endsWith('-shot 1.png'));
+    expect(stored).toMatch(/^\/dav\/obsidian\/images\/\d+-shot 1\.png$/);
+    expect(dav.files.get(stored!)!.toString()).toBe('png-bytes');
+    expect(url).toMatch(/^https:\/\/share\.example\.com\/images\/\d+-shot%201\.png$/);
+
+    // Second upload: folders already exist (405) and are not an error
+    await uploader.upload(new Blob(['other'], { type: 'image/png' }), 'shot 2.png');
+
+    await uploader.delete(url);
+    expect(dav.files.has(stored!)).toBe(false);
+  });
+
+  it('rejects when the server refuses the credentials', async () => {
+    const uploader = new WebDavUploader({ url: baseUrl, username: 'alice', password: 'wrong', folder: 'x' });
+    await expect(uploader.upload(new Blob(['x']), 'x.png')).rejects.toThrow('Could not create folder x: 401');
+  });
+
+  it('goes through the auto-upload flow: cache entry and reference replacement', async () => {
+    const file = { extension: 'png', name: 'image.png', basename: 'image', path: 'notes/image.png', stat: { ctime: Date.now() } } as any;
+    const store: Record<string, string> = {};
+    const editor: any = { getValue: () => `![](${file.path})`, setValue: vi.fn() };
+    const app: any = {
+      vault: {
+        readBinary: vi.fn().mockResolvedValue(new Uint8Array([1, 2, 3]).buffer),
+        createBinary: vi.fn(),
+        adapter: createMemoryAdapter(store),
+      },
+      workspace: { getActiveViewOfType: vi.fn().mockReturnValue({ editor }) },
+    };
+
+    const settings: any = {
+      provider: 'webdav',
+      autoUploadOnFileAdd: true,
+      webdavUrl: baseUrl,
+      webdavUsername: 'alice',
+      webdavPassword: 's3cr3t',
+      webdavFolder: 'vault',
+      webdavPublicUrlPrefix: 'https://share.example.com/s/abc/download?path=%2F&files=',
+      cacheFilePath: 'cache.json',
+      debugLogs: true,
+    };
+
+    await processFileCreate(app, settings, file);
+
+    expect(editor.setValue).toHaveBeenCalled();
+    const replaced = editor.setValue.mock.calls[0][0];
+    expect(replaced).toMatch(/^!\[\]\(https:\/\/share\.example\.com\/s\/abc\/download\?path=%2F&files=\d+-image\.png\)$/);
+    const cache = JSON.parse(store['cache.json']);
+    expect(Object.values(cache)[0]).toMatchObject({ filename: 'image.png', url: replaced.slice(4, -1), resource_type: null });
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach } from 'vitest';
-import { CloudinaryCache, CacheEntry } from '../../src/cache';
+import { buildCacheEntry, CloudinaryCache, CacheEntry } from '../../src/cache';
 
 function createMockApp() {
   const store: Record<string, string> = {};
@@ -51,6 +51,12 @@ describe('CloudinaryCache integration (mocked vault adapter)', () => {
       filename: 'img.jpg',
       uploaded_at: new Date().toISOString(),
       uploader: 'unit-test',
+      resource_type: 'image',
+      width: null,
+      height: null,
+      bytes: null,
+      format: null,
+      version: null,
     };
     await c.writeCache({ ['h1']: entry });
     const store = (app.vault.adapter as any).__store();
@@ -69,6 +75,12 @@ describe('CloudinaryCache integration (mocked vault adapter)', () => {
       filename: 'p.png',
       uploaded_at: new Date().toISOString(),
       uploader: 'unittest',
+      resource_type: 'image',
+      width: null,
+      height: null,
+      bytes: null,
+      format: null,
+      version: null,
     };
     expect(await c.getEntry('h2')).toBeNull();
     await c.addEntry('h2', entry);
@@ -77,6 +89,26 @@ describe('CloudinaryCache integration (mocked vault adapter)', () => {
     expect(got).toEqual(entry);
   });
 
+  it('keeps every entry added concurrently', async () => {
+    const c = new CloudinaryCache(app, path);
+    const entry = (n: number) => buildCacheEntry({ url: `https://example.com/${n}.png` }, `${n}.png`);
+    await Promise.all([1, 2, 3, 4].map((n) => c.addEntry(`h${n}`, entry(n))));
+    expect(Object.keys(await c.readCache()).sort()).toEqual(['h1', 'h2', 'h3', 'h4']);
+  });
+
+  it('serializes updates across instances and lets readers wait for them', async () => {
+    const entry = (n: number) => buildCacheEntry({ url: `https://example.com/${n}.png`, public_id: `id${n}` }, `${n}.png`);
+    // One instance per upload, as the auto-upload and paste paths do
+    const writes = [1, 2, 3, 4].map((n) => new CloudinaryCache(app, path).addEntry(`h${n}`, entry(n)));
+    const reader = new CloudinaryCache(app, path);
+    const [byUrl, byId] = await Promise.all([reader.findEntriesByUrl('https://example.com/4.png'), reader.findEntriesByPublicId('id3')]);
+    await Promise.all(writes);
+
+    expect(byUrl.map(([hash]) => hash)).toEqual(['h4']);
+    expect(byId.map(([hash]) => hash)).toEqual(['h3']);
+    expect(Object.keys(await reader.readCache()).sort()).toEqual(['h1', 'h2', 'h3', 'h4']);
+  });
+
   it('migrates legacy string entries into full CacheEntry objects', async () => {
     const storeJson = JSON.stringify({ legacyHash: 'https://legacy.example/legacy.png' }, null, 2);
     await app.vault.adapter.write(path, storeJson);
@@ -92,6 +124,48 @@ describe('CloudinaryCache integration (mocked vault adapter)', () => {
     expect(persisted.legacyHash.url).toBe('https://legacy.example/legacy.png');
   });
 
+  it('backfills asset fields and the public_id of Cloudinary URLs', async () => {
+    const legacy = {
+      cld: {
+        url: 'https://res.cloudinary.com/demo/image/upload/v1712345678/obsidian/shot.png',
+        public_id: null,
+        filename: 'shot.png',
+        uploaded_at: '2025-01-01T00:00:00.000Z',
+        uploader: 'obsidian-plugin',
+      },
+      s3: { url: 'https://cdn.example.com/a.png', public_id: null, filename: 'a.png', uploaded_at: null, uploader: 'obsidian-plugin' },
+    };
+    await app.vault.adapter.write(path, JSON.stringify(legacy));
+    const read = await new CloudinaryCache(app, path).readCache();
+
+    expect(read.cld).toEqual({
+      ...legacy.cld,
+      public_id: 'obsidian/shot',
+      resource_type: 'image',
+      width: null,
+      height: null,
+      bytes: null,
+      format: 'png',
+      version: 1712345678,
+    });
+    expect(read.s3).toMatchObject({ public_id: null, resource_type: null, format: null, version: null });
+    expect(JSON.parse((app.vault.adapter as any).__store()[path]).cld.public_id).toBe('obsidian/shot');
+  });
+
+  it('buildCacheEntry keeps the metadata reported by the provider', () => {
+    const entry = buildCacheEntry(
+      { url: 'https://res.cloudinary.com/demo/image/upload/v3/a.jpg', public_id: 'a', width: 800, height: 600, bytes: 1234, format: 'jpg', version: 3 },
+      'a.jpg'
+    );
+    expect(entry).toMatchObject({ public_id: 'a', resource_type: 'image', width: 800, height: 600, bytes: 1234, format: 'jpg', version: 3 });
+    expect(buildCacheEntry({ url: 'https://cdn/b.mp4', public_id: null }, 'b.mp4', 'video')).toMatchObject({ resource_type: 'video', width: null });
+  });
+
+  it('buildCacheEntry leaves the resource type empty for other providers', () => {
+    expect(buildCacheEntry({ url: 'https://bucket.s3.amazonaws.com/a.png', public_id: 'a.png' }, 'a.png').resource_type).toBeNull();
+    expect(buildCacheEntry({ url: 'https://res.cloudinary.com/demo/video/upload/v1/clip.mp4', public_id: 'clip' }, 'clip.mp4').resource_type).toBe('video');
+  });
+
   it('calculateHash returns a deterministic SHA-1 hex string', async () => {
     const buf = new TextEncoder().encode('hello world');
     const hash = await CloudinaryCache.calculateHash(buf.buffer);
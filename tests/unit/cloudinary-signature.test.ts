@@ -0,0 +1,81 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createHash } from 'crypto';
+import { buildSignaturePayload, CloudinaryUploader, serializeUploadParams } from '../../src/cloudinary';
+
+const okResponse = {
+  ok: true,
+  status: 200,
+  json: async () => ({ secure_url: 'https://res.cloudinary.com/demo/image/upload/v1/notes/a.png', public_id: 'notes/a', version: 1 }),
+  text: async () => '',
+};
+
+describe('Cloudinary signature', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('serializes tags, context and booleans the way Cloudinary expects', () => {
+    expect(
+      serializeUploadParams({
+        folder: '/notes/2024/',
+        public_id: 'diagram',
+        tags: [' obsidian ', 'notes', ''],
+        context: { alt: 'a=b|c', caption: 'Diagram' },
+        overwrite: false,
+        transformation: 'c_limit,w_2000',
+      })
+    ).toEqual({
+      folder: 'notes/2024',
+      public_id: 'diagram',
+      tags: 'obsidian,notes',
+      context: 'alt=a\\=b\\|c|caption=Diagram',
+      overwrite: 'false',
+      transformation: 'c_limit,w_2000',
+    });
+    expect(serializeUploadParams({ tags: 'a, b' })).toEqual({ tags: 'a,b' });
+  });
+
+  it('sorts parameters and skips empty values in the string to sign', () => {
+    expect(buildSignaturePayload({ timestamp: '1315060510', public_id: 'sample_image', eager: 'w_400,h_300,c_pad|w_260,h_200,c_crop', tags: '' })).toBe(
+      'eager=w_400,h_300,c_pad|w_260,h_200,c_crop&public_id=sample_image&timestamp=1315060510'
+    );
+  });
+
+  it('signs every upload parameter for local signed uploads', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(okResponse);
+    vi.stubGlobal('fetch', fetchMock);
+
+    const uploader = new CloudinaryUploader({
+      cloud_name: 'demo',
+      api_key: 'key',
+      api_secret: 'secret',
+      upload_options: { folder: 'notes', tags: 'obsidian' },
+    });
+    await uploader.upload(new Blob(['png']), 'a.png', { public_id: 'a', overwrite: true, context: { alt: 'A' } });
+
+    const form = fetchMock.mock.calls[0][1].body as FormData;
+    const timestamp = form.get('timestamp');
+    const expected = createHash('sha1')
+      .update(`context=alt=A&folder=notes&overwrite=true&public_id=a&tags=obsidian&timestamp=${timestamp}secret`)
+      .digest('hex');
+    expect(form.get('signature')).toBe(expected);
+    expect(form.get('folder')).toBe('notes');
+    expect(form.get('tags')).toBe('obsidian');
+    expect(form.get('api_key')).toBe('key');
+  });
+
+  it('drops parameters unsigned uploads do not accept', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(okResponse);
+    vi.stubGlobal('fetch', fetchMock);
+
+    const uploader = new CloudinaryUploader({ cloud_name: 'demo', upload_preset: 'unsigned' });
+    await uploader.upload(new Blob(['png']), 'a.png', { folder: 'notes', overwrite: true, transformation: 'w_100' });
+
+    const form = fetchMock.mock.calls[0][1].body as FormData;
+    expect(form.get('folder')).toBe('notes');
+    expect(form.get('upload_preset')).toBe('unsigned');
+    expect(form.get('overwrite')).toBeNull();
+    expect(form.get('transformation')).toBeNull();
+    expect(form.get('signature')).toBeNull();
+  });
+});
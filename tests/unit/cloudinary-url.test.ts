@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { parseCloudinaryUrl } from '../../src/cloudinary-url';
+
+describe('parseCloudinaryUrl', () => {
+  it('splits transformation, version, public_id and format', () => {
+    expect(parseCloudinaryUrl('https://res.cloudinary.com/demo/image/upload/c_fill,w_300/e_sharpen/v17/notes/my%20shot.png')).toEqual({
+      cloud_name: 'demo',
+      resource_type: 'image',
+      type: 'upload',
+      transformation: 'c_fill,w_300/e_sharpen',
+      version: 17,
+      public_id: 'notes/my shot',
+      format: 'png',
+    });
+  });
+
+  it('keeps folders that look like words and raw extensions in the public_id', () => {
+    expect(parseCloudinaryUrl('https://res.cloudinary.com/demo/image/upload/my_folder/cat.jpg')).toMatchObject({
+      transformation: null,
+      version: null,
+      public_id: 'my_folder/cat',
+    });
+    expect(parseCloudinaryUrl('https://res.cloudinary.com/demo/raw/upload/v1/docs/paper.pdf')).toMatchObject({ public_id: 'docs/paper.pdf', format: null });
+  });
+
+  it('ignores other URLs', () => {
+    expect(parseCloudinaryUrl('https://cdn.example.com/image/upload/a.png')).toBeUndefined();
+    expect(parseCloudinaryUrl('not a url')).toBeUndefined();
+  });
+
+  it('rejects malformed escape sequences instead of throwing', () => {
+    expect(parseCloudinaryUrl('https://res.cloudinary.com/demo/image/upload/a%E0%A4%A.png')).toBeUndefined();
+  });
+});
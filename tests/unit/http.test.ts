@@ -0,0 +1,120 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { isUploadCancelled, sendRequest, UploadCancelledError } from '../../src/http';
+import { CloudinaryUploader } from '../../src/cloudinary';
+
+// Fake XMLHttpRequest driving upload progress by hand
+class FakeXhr {
+  static last: FakeXhr;
+  upload: any = {};
+  status = 0;
+  responseText = '';
+  headers: Record<string, string> = {};
+  onload?: () => void;
+  onerror?: () => void;
+  onabort?: () => void;
+  method = '';
+  url = '';
+  body: any;
+  constructor() {
+    FakeXhr.last = this;
+  }
+  open(method: string, url: string) {
+    this.method = method;
+    this.url = url;
+  }
+  setRequestHeader(name: string, value: string) {
+    this.headers[name] = value;
+  }
+  send(body: any) {
+    this.body = body;
+  }
+  abort() {
+    this.onabort?.();
+  }
+  fail() {
+    this.onerror?.();
+  }
+  progress(loaded: number, total: number) {
+    this.upload.onprogress?.({ loaded, total, lengthComputable: true });
+  }
+  respond(status: number, text: string) {
+    this.status = status;
+    this.responseText = text;
+    this.onload?.();
+  }
+}
+
+describe('HTTP layer', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('reports upload progress through XMLHttpRequest', async () => {
+    vi.stubGlobal('XMLHttpRequest', FakeXhr);
+    const onProgress = vi.fn();
+
+    const pending = sendRequest({ method: 'PUT', url: 'https://example.com/a', headers: { 'X-Test': '1' }, body: 'abc', onProgress });
+    FakeXhr.last.progress(512, 1024);
+    FakeXhr.last.progress(1024, 1024);
+    FakeXhr.last.respond(201, '{"ok":true}');
+    const response = await pending;
+
+    expect(onProgress.mock.calls).toEqual([
+      [512, 1024],
+      [1024, 1024],
+    ]);
+    expect(FakeXhr.last.headers).toEqual({ 'X-Test': '1' });
+    expect(response.ok).toBe(true);
+    expect(await response.json()).toEqual({ ok: true });
+  });
+
+  it('rejects with UploadCancelledError when the signal aborts an XHR upload', async () => {
+    vi.stubGlobal('XMLHttpRequest', FakeXhr);
+    const controller = new AbortController();
+
+    const pending = sendRequest({ method: 'POST', url: 'https://example.com/a', onProgress: () => {}, signal: controller.signal });
+    controller.abort();
+
+    await expect(pending).rejects.toBeInstanceOf(UploadCancelledError);
+  });
+
+  it('removes its abort listener from a shared signal however the request ends', async () => {
+    vi.stubGlobal('XMLHttpRequest', FakeXhr);
+    const controller = new AbortController();
+    const removed = vi.spyOn(controller.signal, 'removeEventListener');
+    const send = () => sendRequest({ method: 'POST', url: 'https://example.com/a', onProgress: () => {}, signal: controller.signal });
+
+    const ok = send();
+    FakeXhr.last.respond(200, '');
+    await ok;
+    const failed = send();
+    FakeXhr.last.fail();
+    await expect(failed).rejects.toThrow('Failed to fetch');
+    const aborted = send();
+    FakeXhr.last.abort();
+    await expect(aborted).rejects.toBeInstanceOf(UploadCancelledError);
+
+    expect(removed).toHaveBeenCalledTimes(3);
+  });
+
+  it('maps fetch AbortError to UploadCancelledError', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockRejectedValue(Object.assign(new Error('aborted'), { name: 'AbortError' })));
+    const error = await sendRequest({ method: 'GET', url: 'https://example.com/a' }).catch((e) => e);
+    expect(isUploadCancelled(error)).toBe(true);
+  });
+
+  it('CloudinaryUploader forwards progress and cancellation', async () => {
+    vi.stubGlobal('XMLHttpRequest', FakeXhr);
+    const controller = new AbortController();
+    const onProgress = vi.fn();
+
+    const uploader = new CloudinaryUploader({ cloud_name: 'demo', upload_preset: 'preset' });
+    const pending = uploader.upload(new Blob(['png']), 'a.png', { onProgress, signal: controller.signal });
+    await vi.waitFor(() => expect(FakeXhr.last?.url).toBe('https://api.cloudinary.com/v1_1/demo/image/upload'));
+    FakeXhr.last.progress(1, 3);
+    controller.abort();
+
+    await expect(pending).rejects.toThrow('Upload cancelled');
+    expect(onProgress).toHaveBeenCalledWith(1, 3);
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect, vi } from 'vitest';
+import { processImageForUpload } from '../../src/image-processing';
+
+const png = (size: number) => new Blob([new Uint8Array(size)], { type: 'image/png' });
+const settings = { processImagesBeforeUpload: true, maxImageDimension: 1600, reencodeFormat: 'webp', reencodeQuality: 80 };
+
+describe('processImageForUpload', () => {
+  it('resizes and re-encodes to the configured format and renames the file', async () => {
+    const encoder = vi.fn(async (_blob: Blob, request: any) => new Blob([new Uint8Array(300)], { type: request.mime }));
+
+    const result = await processImageForUpload(png(1000), 'shot.png', settings, encoder);
+
+    expect(encoder).toHaveBeenCalledWith(expect.any(Blob), { maxDimension: 1600, mime: 'image/webp', quality: 80 });
+    expect(result).toMatchObject({ filename: 'shot.webp', processed: true });
+    expect(result.blob.size).toBe(300);
+  });
+
+  it('keeps the original format when asked to, and only caps the dimensions', async () => {
+    const encoder = vi.fn(async (_blob: Blob, request: any) => new Blob([new Uint8Array(10)], { type: request.mime }));
+
+    const result = await processImageForUpload(new Blob([new Uint8Array(50)], { type: 'image/jpeg' }), 'photo.jpeg', { ...settings, reencodeFormat: 'original', maxImageDimension: 0 }, encoder);
+
+    expect(encoder).toHaveBeenCalledWith(expect.any(Blob), { maxDimension: undefined, mime: 'image/jpeg', quality: 80 });
+    expect(result.filename).toBe('photo.jpg');
+  });
+
+  it('uploads the original when the processed image would be bigger', async () => {
+    const original = png(100);
+    const encoder = vi.fn(async () => new Blob([new Uint8Array(150)], { type: 'image/webp' }));
+
+    expect(await processImageForUpload(original, 'icon.png', settings, encoder)).toEqual({ blob: original, filename: 'icon.png', processed: false, removedMetadata: [] });
+  });
+
+  it('uploads the original when encoding fails', async () => {
+    const original = png(100);
+    const encoder = vi.fn().mockRejectedValue(new Error('Image processing is not available'));
+
+    expect(await processImageForUpload(original, 'icon.png', settings, encoder)).toEqual({ blob: original, filename: 'icon.png', processed: false, removedMetadata: [] });
+  });
+
+  it('leaves other image types alone and does nothing when disabled', async () => {
+    const encoder = vi.fn();
+    const gif = new Blob([new Uint8Array(100)], { type: 'image/gif' });
+
+    expect((await processImageForUpload(gif, 'anim.gif', settings, encoder)).blob).toBe(gif);
+    expect((await processImageForUpload(png(100), 'shot.png', { ...settings, processImagesBeforeUpload: false }, encoder)).processed).toBe(false);
+    expect(encoder).not.toHaveBeenCalled();
+  });
+});
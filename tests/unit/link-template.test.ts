@@ -0,0 +1,36 @@
+import { describe, it, expect, vi } from 'vitest';
+import { replaceReferencesInContent } from '../../src/file-handler';
+import { askAltTexts, buildLinkTemplateValues, renderLinkTemplate } from '../../src/link-template';
+import { buildImageLink } from '../../src/responsive';
+
+const url = 'https://res.cloudinary.com/demo/image/upload/v17/notes/my%20shot.png';
+
+describe('link template', () => {
+  it('fills the placeholders and keeps unknown ones', () => {
+    expect(renderLinkTemplate('![{alt}]({url} "{filename}") {size} {width}', { url: 'u', alt: 'a', filename: 'f.png', width: 0 })).toBe('![a](u "f.png") {size} 0');
+    expect(renderLinkTemplate('', { url: 'u', alt: 'a' })).toBe('![a](u)');
+    expect(buildLinkTemplateValues(url)).toMatchObject({ url, filename: 'my shot.png', basename: 'my shot', date: expect.stringMatching(/^\d{4}-\d{2}-\d{2}$/) });
+  });
+
+  it('is used by pasted links and by replaced references', () => {
+    const publishing = { linkTemplate: '![{alt}]({url} "{filename}")' };
+    expect(buildImageLink(url, publishing, { alt: 'Shot', filename: 'image-1.png' })).toBe(`![Shot](${url} "image-1.png")`);
+
+    const html = { linkTemplate: '<img src="{url}" alt="{alt}" width="{width}" height="{height}" data-note="{note}">' };
+    const file: any = { path: 'assets/my shot.png', name: 'my shot.png', basename: 'my shot', extension: 'png' };
+    expect(replaceReferencesInContent('![[my shot.png|Hero]]', file, { url, width: 640, height: 480 }, html, 'replace', 'Daily')).toBe(
+      `<img src="${url}" alt="Hero" width="640" height="480" data-note="Daily">`
+    );
+  });
+
+  it('asks the alt text of each image only when enabled', async () => {
+    const images = [
+      { label: 'a.png', alt: 'a' },
+      { label: 'b.png', alt: 'b' },
+    ];
+    const prompt = vi.fn(async (label: string) => (label === 'a.png' ? 'A chart' : undefined));
+    expect(await askAltTexts({}, images, prompt)).toEqual(['a', 'b']);
+    expect(prompt).not.toHaveBeenCalled();
+    expect(await askAltTexts({ promptAltText: true }, images, prompt)).toEqual(['A chart', 'b']);
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { formatRemovedMetadata, stripImageMetadata } from '../../src/metadata';
+
+const ascii = (text: string) => Array.from(text, (char) => char.charCodeAt(0));
+const segment = (marker: number, payload: number[]) => [0xff, marker, (payload.length + 2) >> 8, (payload.length + 2) & 0xff, ...payload];
+const u32 = (n: number) => [(n >>> 24) & 0xff, (n >>> 16) & 0xff, (n >>> 8) & 0xff, n & 0xff];
+const chunk = (type: string, data: number[]) => [...u32(data.length), ...ascii(type), ...data, 0, 0, 0, 0];
+
+// Little-endian TIFF with orientation 6 (rotated phone photo), a GPS IFD pointer and a camera serial
+const phoneExif = [
+  ...ascii('II'), 0x2a, 0x00, 0x08, 0x00, 0x00, 0x00,
+  0x02, 0x00,
+  0x12, 0x01, 0x03, 0x00, 0x01, 0x00, 0x00, 0x00, 0x06, 0x00, 0x00, 0x00,
+  0x25, 0x88, 0x04, 0x00, 0x01, 0x00, 0x00, 0x00, 0x26, 0x00, 0x00, 0x00,
+  0x00, 0x00, 0x00, 0x00,
+  ...ascii('SERIAL-1234'),
+];
+const orientationOnly = [0x4d, 0x4d, 0x00, 0x2a, 0x00, 0x00, 0x00, 0x08, 0x00, 0x01, 0x01, 0x12, 0x00, 0x03, 0x00, 0x00, 0x00, 0x01, 0x00, 0x06, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00];
+
+const jfif = segment(0xe0, [...ascii('JFIF\0'), 1, 1, 0, 0, 1, 0, 1, 0, 0]);
+const icc = segment(0xe2, ascii('ICC_PROFILE\0profile'));
+const scan = [...segment(0xda, [1, 2, 3]), 0x12, 0xff, 0x00, 0x34, 0xff, 0xd9];
+
+function jpeg(...segments: number[][]) {
+  return new Uint8Array([0xff, 0xd8, ...segments.flat(), ...scan]);
+}
+
+describe('stripImageMetadata', () => {
+  const photo = jpeg(
+    jfif,
+    segment(0xe1, [...ascii('Exif\0\0'), ...phoneExif]),
+    segment(0xe1, ascii('http://ns.adobe.com/xap/1.0/\0<x:xmpmeta/>')),
+    icc,
+    segment(0xed, ascii('Photoshop 3.0\x008BIM')),
+  );
+
+  it('removes EXIF, XMP and IPTC segments of a JPEG and keeps the rest byte for byte', () => {
+    const result = stripImageMetadata(photo, 'image/jpeg');
+
+    expect(result.removed).toEqual(['EXIF', 'GPS location', 'XMP', 'IPTC']);
+    expect(Array.from(result.bytes)).toEqual(Array.from(jpeg(jfif, icc)));
+  });
+
+  it('keeps the orientation in a minimal EXIF segment when asked to', () => {
+    const result = stripImageMetadata(photo, 'image/jpeg', true);
+
+    expect(Array.from(result.bytes)).toEqual(Array.from(jpeg(jfif, segment(0xe1, [...ascii('Exif\0\0'), ...orientationOnly]), icc)));
+    expect(new TextDecoder().decode(result.bytes)).not.toContain('SERIAL');
+  });
+
+  it('removes eXIf and text chunks of a PNG', () => {
+    const ihdr = chunk('IHDR', [0, 0, 0, 1, 0, 0, 0, 1, 8, 6, 0, 0, 0]);
+    const idat = chunk('IDAT', [1, 2, 3]);
+    const iend = chunk('IEND', []);
+    const png = new Uint8Array([
+      0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+      ...ihdr,
+      ...chunk('tEXt', ascii('Software\0Phone')),
+      ...chunk('iTXt', ascii('XML:com.adobe.xmp\0\0\0\0\0<x:xmpmeta/>')),
+      ...chunk('eXIf', phoneExif),
+      ...idat,
+      ...iend,
+    ]);
+
+    const stripped = stripImageMetadata(png, 'image/png');
+    expect(stripped.removed).toEqual(['text chunks', 'XMP', 'EXIF', 'GPS location']);
+    expect(Array.from(stripped.bytes)).toEqual([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, ...ihdr, ...idat, ...iend]);
+
+    const oriented = stripImageMetadata(png, 'image/png', true);
+    const exif = [...u32(orientationOnly.length), ...ascii('eXIf'), ...orientationOnly, 0xd6, 0x67, 0x4b, 0x69];
+    expect(Array.from(oriented.bytes)).toEqual([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, ...ihdr, ...exif, ...idat, ...iend]);
+  });
+
+  it('returns the input untouched when there is nothing to remove or the data is not a JPEG/PNG', () => {
+    const clean = jpeg(jfif);
+    expect(stripImageMetadata(clean, 'image/jpeg')).toEqual({ bytes: clean, removed: [] });
+    const gif = new Uint8Array(ascii('GIF89a'));
+    expect(stripImageMetadata(gif, 'image/gif').bytes).toBe(gif);
+    const truncated = new Uint8Array([0xff, 0xd8, 0xff, 0xe1, 0x40, 0x00]);
+    expect(stripImageMetadata(truncated, 'image/jpeg').bytes).toBe(truncated);
+  });
+
+  it('describes what was removed for the upload notice', () => {
+    expect(formatRemovedMetadata(['EXIF', 'GPS location'])).toBe('removed EXIF, GPS location');
+    expect(formatRemovedMetadata([])).toBe('');
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect, vi } from 'vitest';
+import { buildCacheEntry, CloudinaryCache } from '../../src/cache';
+import { buildUploadNaming, renderNamingTemplate, slugify, uploadWithNaming } from '../../src/naming';
+import { createMemoryAdapter } from '../__mocks__/vault-adapter';
+
+const note = { path: 'Projects/Été 2024/Kick-off notes.md', basename: 'Kick-off notes' };
+const context = { filename: 'Screen Shot!.PNG', hash: '0123456789abcdef0123456789abcdef01234567', note, date: new Date(2024, 6, 5) };
+
+function makeCache(store: Record<string, string> = {}) {
+  const app: any = {
+    vault: { adapter: createMemoryAdapter(store) },
+  };
+  return new CloudinaryCache(app, 'cache.json');
+}
+
+describe('naming templates', () => {
+  it('slugifies every path segment and drops empty ones', () => {
+    expect(slugify('  Été — Déjà vu!  ')).toBe('ete-deja-vu');
+    expect(renderNamingTemplate('{note_folder}/{yyyy}/{mm}/{dd}', context)).toBe('projects/ete-2024/2024/07/05');
+    expect(renderNamingTemplate('{note}/{filename}.{ext}', context)).toBe('kick-off-notes/screen-shot-png');
+    expect(renderNamingTemplate('{note_folder}/{note}/{hash}', { filename: 'a.png', hash: context.hash })).toBe('0123456789abcdef');
+  });
+
+  it('puts the folder template under the upload folder, for Cloudinary only', () => {
+    const settings = { cloudinaryFolder: '/obsidian/', folderTemplate: '{note}', publicIdTemplate: '{hash}' };
+    expect(buildUploadNaming(settings, context)).toEqual({ folder: 'obsidian/kick-off-notes', public_id: '0123456789abcdef', dedupe: true });
+    expect(buildUploadNaming({ ...settings, provider: 's3' }, context)).toBeUndefined();
+    expect(buildUploadNaming({ cloudinaryFolder: 'obsidian' }, context)).toBeUndefined();
+  });
+});
+
+describe('uploadWithNaming', () => {
+  const settings = { folderTemplate: '{note}', publicIdTemplate: '{filename}' };
+
+  it('appends a suffix when the public_id belongs to another image', async () => {
+    const cache = makeCache();
+    await cache.addEntry('other', buildCacheEntry({ url: 'https://cdn/1', public_id: 'kick-off-notes/screen-shot' }, 'other.png'));
+    const upload = vi.fn(async (options: any) =>
+      options.public_id === 'screen-shot-2'
+        ? { url: 'https://cdn/taken', public_id: 'kick-off-notes/screen-shot-2', existing: true }
+        : { url: 'https://cdn/new', public_id: `kick-off-notes/${options.public_id}` }
+    );
+
+    const asset = await uploadWithNaming(settings, context, upload, cache);
+
+    // screen-shot is known to the cache, screen-shot-2 is reported existing by Cloudinary, screen-shot-3 is free
+    expect(upload.mock.calls.map(([options]) => options)).toEqual([
+      { folder: 'kick-off-notes', public_id: 'screen-shot-2', overwrite: false },
+      { folder: 'kick-off-notes', public_id: 'screen-shot-3', overwrite: false },
+    ]);
+    expect(asset.public_id).toBe('kick-off-notes/screen-shot-3');
+  });
+
+  it('reuses the asset stored under a {hash} public_id', async () => {
+    const upload = vi.fn().mockResolvedValue({ url: 'https://cdn/same', public_id: '0123456789abcdef', existing: true });
+
+    const asset = await uploadWithNaming({ publicIdTemplate: '{hash}' }, context, upload);
+
+    expect(upload).toHaveBeenCalledTimes(1);
+    expect(asset.url).toBe('https://cdn/same');
+  });
+
+  it('leaves naming to the provider without templates', async () => {
+    const upload = vi.fn().mockResolvedValue({ url: 'https://cdn/random', public_id: 'x1y2' });
+    await uploadWithNaming({}, context, upload);
+    expect(upload).toHaveBeenCalledWith({});
+  });
+});
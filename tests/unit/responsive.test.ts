@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { buildImageLink, buildResponsiveImage, parseBreakpoints } from '../../src/responsive';
+
+const url = 'https://res.cloudinary.com/demo/image/upload/v17/notes/shot.png';
+const at = (chain: string) => `https://res.cloudinary.com/demo/image/upload/${chain}/v17/notes/shot.png`;
+
+describe('responsive images', () => {
+  it('parses breakpoints', () => {
+    expect(parseBreakpoints('1200, 480w;800 800 nope -1')).toEqual([480, 800, 1200]);
+  });
+
+  it('builds srcset candidates below the original width, sizes and dimensions', () => {
+    const settings = { responsiveBreakpoints: '480, 800, 1600', responsiveSizes: '100vw' };
+    expect(buildResponsiveImage(url, settings, { alt: 'A "shot"', asset: { width: 1200, height: 900 } })).toBe(
+      `<img src="${url}" srcset="${at('c_limit,w_480')} 480w, ${at('c_limit,w_800')} 800w, ${url} 1200w" sizes="100vw" width="1200" height="900" alt="A &quot;shot&quot;">`
+    );
+  });
+
+  it('resizes after the profile transformation and skips dimensions when unknown', () => {
+    const html = buildResponsiveImage(url, { responsiveBreakpoints: '480' }, { transformation: 'e_sharpen' });
+    expect(html).toBe(
+      `<img src="${at('e_sharpen')}" srcset="${at('e_sharpen/c_limit,w_480')} 480w" sizes="(max-width: 800px) 100vw, 800px" alt="">`
+    );
+  });
+
+  it('picks the output mode globally or per insertion, falling back to markdown', () => {
+    const responsive = { imageOutputMode: 'responsive', responsiveBreakpoints: '480' };
+    expect(buildImageLink(url, responsive, { alt: 'a' })).toMatch(/^<img src=/);
+    expect(buildImageLink(url, responsive, { alt: 'a', mode: 'markdown' })).toBe(`![a](${url})`);
+    expect(buildImageLink(url, {}, { alt: 'a', mode: 'responsive' })).toMatch(/^<img src=/);
+    expect(buildImageLink('https://cdn.example.com/a.png', responsive, { alt: 'a' })).toBe('![a](https://cdn.example.com/a.png)');
+  });
+});
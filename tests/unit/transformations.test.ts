@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyDefaultTransformation,
+  applyTransformation,
+  DEFAULT_TRANSFORMATION_PROFILES,
+  parseTransformationProfiles,
+} from '../../src/transformations';
+
+const url = 'https://res.cloudinary.com/demo/image/upload/v17/notes/shot.png';
+
+describe('transformation profiles', () => {
+  it('parses one name = transformation per line', () => {
+    expect(parseTransformationProfiles(DEFAULT_TRANSFORMATION_PROFILES)[0]).toEqual({ name: 'Note width', transformation: 'w_800,c_limit,f_auto,q_auto' });
+    expect(parseTransformationProfiles('# comment\nHero = /w_1600/\nBroken =\n')).toEqual([{ name: 'Hero', transformation: 'w_1600' }]);
+  });
+
+  it('injects the transformation after /upload/, before existing ones', () => {
+    expect(applyTransformation(url, 'w_800,c_limit')).toBe('https://res.cloudinary.com/demo/image/upload/w_800,c_limit/v17/notes/shot.png');
+    expect(applyTransformation('https://res.cloudinary.com/demo/image/upload/e_sharpen/shot.png', 'w_800')).toBe(
+      'https://res.cloudinary.com/demo/image/upload/w_800/e_sharpen/shot.png'
+    );
+  });
+
+  it('leaves other URLs, raw files and empty transformations alone', () => {
+    expect(applyTransformation('https://cdn.example.com/upload/shot.png', 'w_800')).toBe('https://cdn.example.com/upload/shot.png');
+    expect(applyTransformation('https://res.cloudinary.com/demo/raw/upload/v1/doc.pdf', 'w_800')).toBe('https://res.cloudinary.com/demo/raw/upload/v1/doc.pdf');
+    expect(applyTransformation(url, '')).toBe(url);
+  });
+
+  it('applies the default profile only when it exists', () => {
+    const settings = { transformationProfiles: DEFAULT_TRANSFORMATION_PROFILES, defaultTransformationProfile: 'Thumbnail' };
+    expect(applyDefaultTransformation(url, settings)).toContain('/upload/w_300,h_300,c_fill,g_auto,f_auto,q_auto/v17/');
+    expect(applyDefaultTransformation(url, { ...settings, defaultTransformationProfile: 'Gone' })).toBe(url);
+    expect(applyDefaultTransformation(url, {})).toBe(url);
+  });
+});